@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { accessOf, canConfigure, setOwner, setPassword } from "../../../../../lib/server/access";
+import { verifyCaller } from "../../../../../lib/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET -> { password, locked }: what joining this room currently takes.
+export async function GET(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+
+    return NextResponse.json(await accessOf(room));
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Room access error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { password: string | null } or { owner } -> { password, locked }. Host only.
+// A null or "" password removes it; `owner` follows a peer-to-peer host transfer.
+export async function POST(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+    if (!(await canConfigure(caller))) {
+      return NextResponse.json({ error: "Only the host can change room access." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (typeof body?.owner === "string" && body.owner) {
+      await setOwner(caller, body.owner);
+      return NextResponse.json(await accessOf(room));
+    }
+
+    const password = body?.password;
+    if (password !== null && typeof password !== "string") {
+      return NextResponse.json({ error: "Missing password." }, { status: 400 });
+    }
+
+    await setPassword(caller, password || null);
+    return NextResponse.json(await accessOf(room));
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Room access error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { parseEnvelope } from "../../../../../lib/game/protocol";
+import { verifyCaller } from "../../../../../lib/server/auth";
+import { runAction } from "../../../../../lib/server/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { v, msg } -> authoritative public state after applying msg as the caller.
+export async function POST(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const decoded = parseEnvelope(body);
+    if (!decoded.ok) {
+      const status = decoded.error === "version" ? 409 : 400;
+      return NextResponse.json({ error: decoded.reason }, { status });
+    }
+
+    const result = await runAction(room, caller, decoded.msg);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ state: result.state });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Game action error" },
+      { status: 500 }
+    );
+  }
+}
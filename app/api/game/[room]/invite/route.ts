@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { canConfigure, signInvite } from "../../../../../lib/server/access";
+import { verifyCaller } from "../../../../../lib/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { ttlMinutes } -> { invite, expiresAt }. Host only; the invite skips the password until it expires.
+export async function POST(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+    if (!(await canConfigure(caller))) {
+      return NextResponse.json({ error: "Only the host can create invites." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const minutes = Number(body?.ttlMinutes) || 60;
+
+    return NextResponse.json(signInvite(room, minutes * 60_000));
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Invite error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { canConfigure, removeFromRoom } from "../../../../../lib/server/access";
+import { verifyCaller } from "../../../../../lib/server/auth";
+import { removeMember } from "../../../../../lib/server/livekit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { identity } -> { ok }. Host only; removes them from the LiveKit room and keeps that identity out for a while.
+export async function POST(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+    if (!(await canConfigure(caller))) {
+      return NextResponse.json({ error: "Only the host can remove players." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const target = typeof body?.identity === "string" ? body.identity : "";
+    if (!target || target === caller.identity) {
+      return NextResponse.json({ error: "Pick someone else." }, { status: 400 });
+    }
+
+    await removeFromRoom(caller, target);
+    await removeMember(room, target);
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Kick error" },
+      { status: 500 }
+    );
+  }
+}
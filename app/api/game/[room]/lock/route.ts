@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { accessOf, canConfigure, setLocked } from "../../../../../lib/server/access";
+import { verifyCaller } from "../../../../../lib/server/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { locked } -> { password, locked }. Host only; a locked room only takes back who was in it.
+export async function POST(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+    if (!(await canConfigure(caller))) {
+      return NextResponse.json({ error: "Only the host can lock the room." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    await setLocked(caller, !!body?.locked);
+    return NextResponse.json(await accessOf(room));
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Room lock error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { canConfigure } from "../../../../../lib/server/access";
+import { verifyCaller } from "../../../../../lib/server/auth";
+import { muteMember } from "../../../../../lib/server/livekit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST { identity } -> { muted }: how many of their published tracks were muted. Host only.
+export async function POST(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+    if (!(await canConfigure(caller))) {
+      return NextResponse.json({ error: "Only the host can mute players." }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const target = typeof body?.identity === "string" ? body.identity : "";
+    if (!target || target === caller.identity) {
+      return NextResponse.json({ error: "Pick someone else." }, { status: 400 });
+    }
+
+    const muted = await muteMember(room, target);
+    return NextResponse.json({ muted });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Mute error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { verifyCaller } from "../../../../../lib/server/auth";
+import { readRoom } from "../../../../../lib/server/rooms";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET ?since=<rev>&game=<gameId> -> 204 when the caller is already up to date.
+export async function GET(req: NextRequest, { params }: { params: { room: string } }) {
+  try {
+    const room = decodeURIComponent(params.room || "").trim();
+    const caller = await verifyCaller(req.headers.get("authorization"), room);
+    if (!caller) {
+      return NextResponse.json({ error: "Not a member of this room." }, { status: 401 });
+    }
+
+    const state = await readRoom(room);
+    if (!state) {
+      return NextResponse.json({ error: "No game in this room yet." }, { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const since = Number(url.searchParams.get("since"));
+    const game = url.searchParams.get("game");
+    if (game === state.gameId && Number.isFinite(since) && since >= state.rev) {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    return NextResponse.json({ state });
+  } catch (err: any) {
+    return NextResponse.json(
+      { error: err?.message || "Game state error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { AccessToken } from "livekit-server-sdk";
 
-export const runtime = "nodejs";
+import { admit, openRoom } from "../../../lib/server/access";
+import { getEnv } from "../../../lib/server/env";
+import { checkClaim, claimFor, newIdentity } from "../../../lib/server/identity";
 
-function getEnv(name: string): string {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing environment variable: ${name}`);
-  return v;
-}
+export const runtime = "nodejs";
 
-export async function GET(req: NextRequest) {
+// POST { room, name, role?, mode?, identity?, claim?, password?, invite? } -> { token, url, identity, claim, ... }.
+// A body, not a query string: passwords and invites stay out of request logs.
+export async function POST(req: NextRequest) {
   try {
-    const url = new URL(req.url);
-    const room = (url.searchParams.get("room") || "").trim();
-    const name = (url.searchParams.get("name") || "").trim();
+    const body = await req.json().catch(() => null);
+    const field = (key: string): string => (typeof body?.[key] === "string" ? body[key] : "");
+
+    const room = field("room").trim();
+    const name = field("name").trim().slice(0, 32);
+    const role = field("role") === "spectator" ? "spectator" : "player";
+    const mode = field("mode") === "server" ? "server" : "p2p";
 
     if (!room || !name) {
       return NextResponse.json(
@@ -22,6 +26,29 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    // keep the identity this device was issued before (proven by its claim), otherwise mint one
+    const asked = field("identity");
+    const claim = field("claim");
+    const identity = checkClaim(asked, claim) ? asked : newIdentity();
+
+    // locked rooms: members only; password-protected rooms: a matching password or a live invite
+    const admission = await admit(room, field("password"), field("invite"), identity);
+    if (!admission.ok) {
+      return NextResponse.json(
+        { error: admission.error, needsPassword: admission.needsPassword },
+        { status: 403 }
+      );
+    }
+
+    // an empty room takes the joiner's mode; a live one keeps its own
+    const roomMode = await openRoom(room, identity, mode);
+    if (roomMode !== mode) {
+      return NextResponse.json(
+        { error: roomMode === "server" ? "This room plays in server mode." : "This room plays peer-to-peer." },
+        { status: 409 }
+      );
+    }
+
     const LIVEKIT_URL = getEnv("LIVEKIT_URL");
     const LIVEKIT_API_KEY = getEnv("LIVEKIT_API_KEY");
     const LIVEKIT_API_SECRET = getEnv("LIVEKIT_API_SECRET");
@@ -30,24 +57,31 @@ export async function GET(req: NextRequest) {
       LIVEKIT_API_KEY,
       LIVEKIT_API_SECRET,
       {
-        identity: name,
+        identity,
+        name,
+        metadata: JSON.stringify({ name, role }),
         ttl: "6h"
       }
     );
 
+    // spectators watch: subscribe-only, no media and no game messages
     at.addGrant({
       room,
       roomJoin: true,
-      canPublish: true,
+      canPublish: role === "player",
       canSubscribe: true,
-      canPublishData: true
+      canPublishData: role === "player"
     });
 
     const token = await at.toJwt();
 
     return NextResponse.json({
       token,
-      url: LIVEKIT_URL
+      url: LIVEKIT_URL,
+      identity,
+      claim: claimFor(identity),
+      name,
+      role
     });
 
   } catch (err: any) {
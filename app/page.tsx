@@ -4,124 +4,62 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Room, RoomEvent, Track } from "livekit-client";
 
-/* =========================
-   TYPES
-========================= */
-
-type PlayerStats = {
-  name: string;
-  drinks: number; // user-controlled
-  cardsDrawn: number;
-
-  // tracked events (no auto-drinks)
-  qmCaught: number; // times they were caught answering QM
-  powerLosses: number; // last-to-tap losses (heaven/thumb)
-};
-
-type PowerKind = "heaven" | "thumb";
-
-type PowerRound = {
-  kind: PowerKind;
-  active: boolean;
-  startedBy: string; // holder who started it
-  eligible: string[]; // snapshot at start
-  tapped: string[]; // order of taps; last = loser
-  loser: string | null;
-  startedAt: number;
-};
-
-type WaterfallState =
-  | null
-  | {
-      phase: "pending" | "active";
-      drawer: string;
-      durationSec: number; // random 5-20
-      startedAt: number | null; // set on start
-      direction: "clockwise";
-    };
-
-type KingRule = {
-  id: string;
-  text: string;
-  by: string;
-  createdAt: number;
-};
-
-type GameState = {
-  host: string | null;
-  deck: string[];
-  currentCard: string | null;
-
-  turn: string | null;
-  lastDrawBy: string | null;
-
-  players: Record<string, PlayerStats>;
-
-  // badges / holders
-  heavenHolder: string | null; // 7
-  thumbHolder: string | null; // J
-  qmHolder: string | null; // Q (Question Master)
-  kingHolder: string | null; // K
-
-  powerRound: PowerRound | null;
-  waterfall: WaterfallState;
-  kingRules: KingRule[];
-};
-
-type Msg =
-  | { type: "STATE"; data: GameState }
-  | { type: "DRAW"; requestedBy?: string }
-  | { type: "UPDATE"; id: string; patch: Partial<PlayerStats> }
-  | { type: "POWER_START"; kind: PowerKind; requestedBy: string }
-  | { type: "POWER_TAP"; kind: PowerKind; by: string }
-  | { type: "POWER_CLEAR"; requestedBy: string }
-  | { type: "WATERFALL_START"; requestedBy: string }
-  | { type: "QM_CAUGHT"; requestedBy: string; target: string }
-  | { type: "KING_ADD_RULE"; requestedBy: string; text: string }
-  | { type: "KING_REMOVE_RULE"; requestedBy: string; ruleId: string };
+import {
+  MAX_PLAYERS_LIMIT,
+  canStartPower,
+  clone,
+  defaultCtx,
+  displayName,
+  drawerFor,
+  emptyState,
+  getTurnOrder,
+  isDeckLocked,
+  reduce,
+  rotateFrom,
+  toPublic,
+} from "../lib/game/engine";
+import {
+  GUEST_REQUESTS,
+  checkRequest,
+  checkState,
+  electHost,
+  type Presence,
+  type Rejection,
+} from "../lib/game/authority";
+import { RANKS, isRedSuit, parseCard } from "../lib/game/cards";
+import { describeEvent, eventsToCsv, mergeEvents, sessionExport } from "../lib/game/events";
+import { verifyShuffle } from "../lib/game/fair";
+import {
+  CLASSIC_RULES,
+  MAX_GROUP,
+  MAX_LABEL,
+  MAX_TEXT,
+  MECHANICS,
+  groupsIn,
+  ruleForCard,
+} from "../lib/game/rules";
+import { PROTOCOL_VERSION, decodeMsg, encodeMsg } from "../lib/game/protocol";
+import { checkRev, stamp } from "../lib/game/sync";
+import type { GameEvent, GameState, Mechanic, Msg, PowerKind, RankRule, RuleSet } from "../lib/game/types";
+import { createLiveKitTransport } from "../lib/net/livekit";
+import { createLocalTransport } from "../lib/net/local";
+import { createRoomAdmin, createServerGame, type RoomAccessInfo, type ServerGame } from "../lib/net/server";
+import { loadIdentity, saveIdentity, tabIdentity } from "../lib/client/identity";
+import { deletePreset, loadPresets, presetFromJson, presetToJson, savePreset } from "../lib/client/presets";
+import { clearSession, lastJoin, loadSession, saveSession } from "../lib/client/session";
+import type { PeerInfo, Transport, TransportEvents } from "../lib/net/transport";
 
 /* =========================
    HELPERS
 ========================= */
 
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-function buildDeck() {
-  const suits = ["♠", "♥", "♦", "♣"];
-  const ranks = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
-  const d: string[] = [];
-  for (const r of ranks) for (const s of suits) d.push(`${r}${s}`);
-  return d;
-}
-
-function clone<T>(obj: T): T {
-  return JSON.parse(JSON.stringify(obj));
-}
-
-function encode(obj: any) {
-  return new TextEncoder().encode(JSON.stringify(obj));
-}
+// How long a joiner waits for SYNC_RESPONSE before it may claim host.
+const SYNC_TIMEOUT_MS = 2500;
 
-function decode(buf: Uint8Array) {
-  try {
-    return JSON.parse(new TextDecoder().decode(buf));
-  } catch {
-    return null;
-  }
-}
-
-function uid(prefix = "id") {
-  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now()}`;
-}
+type Layout = "l1" | "l2" | "l3" | "l4" | "l5" | "l6" | "l8" | "l9";
 
-type Layout = "l1" | "l2" | "l3" | "l4" | "l5" | "l6";
+// Video tiles per page; past that the grid pages (turn order and power rounds still include everyone).
+const TILES_PER_PAGE = 9;
 
 function computeVideoLayout(count: number): Layout {
   if (count <= 1) return "l1";
@@ -129,54 +67,29 @@ function computeVideoLayout(count: number): Layout {
   if (count === 3) return "l3";
   if (count === 4) return "l4";
   if (count === 5) return "l5";
-  return "l6";
+  if (count === 6) return "l6";
+  if (count <= 8) return "l8";
+  return "l9";
 }
 
-function parseCard(card: string | null): { rank: string; suit: string } {
-  if (!card) return { rank: "—", suit: "" };
-  const suit = card.slice(-1);
-  const rank = card.slice(0, -1);
-  return { rank, suit };
-}
+// Grid cells of the big layouts (4×2, 3×3); a page that doesn't fill one is padded so there's no gap.
+const LAYOUT_SLOTS: Partial<Record<Layout, number>> = { l8: 8, l9: 9 };
 
-function isRedSuit(suit: string) {
-  return suit === "♥" || suit === "♦";
+// Whoever spoke recently (`stage`, newest first) goes ahead of everyone else.
+function videoOrder(others: string[], stage: string[]): string[] {
+  const promoted = stage.filter((id) => others.includes(id));
+  return [...promoted, ...others.filter((id) => !promoted.includes(id))];
 }
 
-function ruleForCard(card: string | null): string {
-  if (!card) return "Draw to start.";
-  const { rank } = parseCard(card);
-
-  // NOTE: These descriptions match the mechanics implemented below for A/7/J/Q/K.
-  switch (rank) {
-    case "A":
-      return "Ace = Waterfall. Drawer starts it; random 5–20s; clockwise; deck locked while pending/active.";
-    case "2":
-      return "2 = You choose someone to drink.";
-    case "3":
-      return "3 = You drink.";
-    case "4":
-      return "4 = Whores (girls drink).";
-    case "5":
-      return "5 = Guys drink.";
-    case "6":
-      return "6 = Dicks / Kyle’sADick (everyone drinks).";
-    case "7":
-      return "7 = Heaven power. Holder can start anytime; last to tap loses; holder stays until next 7.";
-    case "8":
-      return "8 = Mate (pick a mate).";
-    case "9":
-      return "9 = Rhyme (go around).";
-    case "10":
-      return "10 = Categories (go around).";
-    case "J":
-      return "Jack = Thumb power. Holder can start anytime; last to tap loses; holder stays until next Jack.";
-    case "Q":
-      return "Question Master. If you answer, QM can tag you (tracked). QM stays until next Q.";
-    case "K":
-      return "King = Make a rule. King can add rules (persist until removed). King stays until next K.";
-    default:
-      return "House rules.";
+// A pasted invite link (or any ?room= URL) instead of a bare room code.
+function parseJoinLink(text: string): { room: string; invite: string } | null {
+  if (!/^https?:\/\//i.test(text.trim())) return null;
+  try {
+    const u = new URL(text.trim());
+    const room = u.searchParams.get("room") || "";
+    return room ? { room, invite: u.searchParams.get("invite") || "" } : null;
+  } catch {
+    return null;
   }
 }
 
@@ -205,44 +118,52 @@ function isFullscreenNow() {
   return !!(d.fullscreenElement || d.webkitFullscreenElement || d.mozFullScreenElement || d.msFullscreenElement);
 }
 
+function downloadText(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 /* =========================
    MAIN APP
 ========================= */
 
 export default function Page() {
-  const roomRef = useRef<Room | null>(null);
-  const me = useRef<string>("");
-
-  const emptyState: GameState = {
-    host: null,
-    deck: [],
-    currentCard: null,
-    turn: null,
-    lastDrawBy: null,
-    players: {},
-
-    heavenHolder: null,
-    thumbHolder: null,
-    qmHolder: null,
-    kingHolder: null,
+  const roomRef = useRef<Room | null>(null); // LiveKit only (video)
+  const transportRef = useRef<Transport | null>(null);
+  const serverRef = useRef<ServerGame | null>(null); // set when the server runs the rules
+  const tokenRef = useRef<string>(""); // LiveKit token, doubles as the API credential
+  const me = useRef<string>(""); // identity (GameState key), not the display name
+  const myName = useRef<string>("");
+  const watchOnly = useRef(false); // joined as a spectator
+  const spectators = useRef(new Map<string, string>()); // remote spectator identity -> display name
 
-    powerRound: null,
-    waterfall: null,
-    kingRules: [],
-  };
-
-  const stateRef = useRef<GameState>(clone(emptyState));
+  const stateRef = useRef<GameState>(emptyState());
 
   const [roomCode, setRoomCode] = useState("kad");
   const [name, setName] = useState("");
+  const [group, setGroup] = useState("");
+  const [password, setPassword] = useState("");
+  const [invite, setInvite] = useState(""); // from an invite link; lets us skip the password
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [localMode, setLocalMode] = useState(false);
+  const [serverMode, setServerMode] = useState(false);
+  const [spectate, setSpectate] = useState(false);
+  const [watchers, setWatchers] = useState<string[]>([]); // spectator display names
 
   const [connected, setConnected] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
   const [joining, setJoining] = useState(false);
   const [errMsg, setErrMsg] = useState<string>("");
 
   const [isFs, setIsFs] = useState(false);
 
-  const [state, setState] = useState<GameState>(clone(emptyState));
+  const [state, setState] = useState<GameState>(emptyState());
+  // syncs only carry the latest events; everything seen this game, for the timeline and exports
+  const [history, setHistory] = useState<{ gameId: string | null; events: GameEvent[] }>({ gameId: null, events: [] });
 
   // small toast
   const [toast, setToast] = useState<string>("");
@@ -252,11 +173,79 @@ export default function Page() {
   const [qmOpen, setQmOpen] = useState(false);
   const [kingOpen, setKingOpen] = useState(false);
   const [kingText, setKingText] = useState("");
+  const [debugOpen, setDebugOpen] = useState(false);
+  const [accessOpen, setAccessOpen] = useState(false);
+  const [ledgerOpen, setLedgerOpen] = useState(false);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [roundWord, setRoundWord] = useState("");
+  const [clock, setClock] = useState(() => Date.now());
+  const [targetOpen, setTargetOpen] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [rulesDraft, setRulesDraft] = useState<RuleSet | null>(null);
+  const [presets, setPresets] = useState<RuleSet[]>([]);
+  const [presetJson, setPresetJson] = useState("");
+  const [ledgerWho, setLedgerWho] = useState("");
+  const [ledgerReason, setLedgerReason] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [inviteLink, setInviteLink] = useState("");
+  const [access, setAccess] = useState<RoomAccessInfo | null>(null);
+
+  // video paging
+  const [page, setPage] = useState(0);
+  const [stage, setStage] = useState<string[]>([]); // recent speakers pulled onto the first page
+  const dragSeat = useRef<string | null>(null);
+
+  // rejected network messages (debug panel)
+  const [rejected, setRejected] = useState<Rejection[]>([]);
+  const [dropped, setDropped] = useState(0); // malformed / wrong-version messages
+  const [peerVersion, setPeerVersion] = useState<number | null>(null); // set on a version mismatch
+  const lastResyncAt = useRef(0);
+
+  // join handshake
+  const syncWait = useRef<((host: string | null) => void) | null>(null);
+  const reportedHost = useRef<string | null>(null);
 
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
+  // seated players other than me, in seat order going round from me
+  function othersOf(gs: GameState): string[] {
+    return rotateFrom(getTurnOrder(gs), me.current).filter((id) => id !== me.current);
+  }
+
+  // someone off the first page started talking: pull them onto it (first-page tiles stay put)
+  function onActiveSpeakers(ids: string[]) {
+    setStage((prev) => {
+      let next = prev;
+      for (const id of ids) {
+        if (id === me.current) continue;
+        const firstPage = videoOrder(othersOf(stateRef.current), next).slice(0, TILES_PER_PAGE - 1);
+        if (firstPage.includes(id)) continue;
+        next = [id, ...next.filter((x) => x !== id)].slice(0, TILES_PER_PAGE - 1);
+      }
+      return next;
+    });
+  }
+
+  async function setMaxPlayers(max: number) {
+    await dispatch({ type: "SET_MAX_PLAYERS", requestedBy: me.current, max });
+  }
+
+  // host: put `id` in the seat `before` sits in now (everyone from there shifts one along)
+  async function moveSeat(id: string, before: string) {
+    if (!id || id === before) return;
+    const order = rotateFrom(getTurnOrder(stateRef.current), me.current).filter((x) => x !== id);
+    const at = order.indexOf(before);
+    if (at < 0) return;
+    order.splice(at, 0, id);
+    await dispatch({ type: "SEATS_SET", requestedBy: me.current, seats: order });
+  }
+
+  async function reverseDirection() {
+    await dispatch({ type: "DIRECTION_REVERSE", requestedBy: me.current });
+  }
+
   function showToast(msg: string) {
     setToast(msg);
     if (toastTimer.current) clearTimeout(toastTimer.current);
@@ -300,322 +289,309 @@ export default function Page() {
      NETWORK
   ========================= */
 
-  async function send(msg: Msg) {
-    const r = roomRef.current;
-    if (!r) return;
-    await r.localParticipant.publishData(encode(msg), { reliable: true });
+  // `to` limits delivery to those identities (default: everyone)
+  async function send(msg: Msg, to?: string[]) {
+    const t = transportRef.current;
+    if (!t || watchOnly.current) return; // spectator tokens can't publish data
+    await t.send(encodeMsg(msg), to);
   }
 
-  /* =========================
-     GAME LOGIC
-  ========================= */
-
-  function ensurePlayer(gs: GameState, id: string) {
-    if (!id) return;
-    if (!gs.players[id]) {
-      gs.players[id] = { name: id, drinks: 0, cardsDrawn: 0, qmCaught: 0, powerLosses: 0 };
-    } else {
-      // backward-safe fill
-      if (typeof gs.players[id].qmCaught !== "number") gs.players[id].qmCaught = 0;
-      if (typeof gs.players[id].powerLosses !== "number") gs.players[id].powerLosses = 0;
-    }
-  }
+  // guest only: we missed revisions, ask the host for its current snapshot (throttled)
+  async function requestResync() {
+    const now = Date.now();
+    if (now - lastResyncAt.current < 2000) return;
+    lastResyncAt.current = now;
 
-  function getTurnOrder(gs: GameState): string[] {
-    const ids = Object.keys(gs.players).filter(Boolean);
-    const host = gs.host ? [gs.host] : [];
-    const rest = ids.filter((x) => x !== gs.host).sort((a, b) => a.localeCompare(b));
-    const merged = [...host, ...rest];
-    return Array.from(new Set(merged)).slice(0, 6);
+    const current = stateRef.current;
+    await send(
+      { type: "SYNC_REQUEST", requestedBy: me.current, haveRev: current.rev },
+      current.host ? [current.host] : undefined
+    );
   }
 
-  function advanceTurn(gs: GameState): string | null {
-    const order = getTurnOrder(gs);
-    if (!order.length) return gs.host;
-
-    const cur = gs.turn && order.includes(gs.turn) ? gs.turn : order[0];
-    const idx = order.indexOf(cur);
-    const next = order[(idx + 1) % order.length];
-    return next || order[0] || gs.host;
+  // players only: spectators never host, vote, or take a seat
+  function presence(): Presence {
+    const t = transportRef.current;
+    const self = watchOnly.current ? [] : [me.current];
+    const peers = () => (t?.peers() ?? []).filter((id) => !spectators.current.has(id));
+    return {
+      list: () => [...self, ...peers()].filter(Boolean),
+      has: (id) => (id === me.current && !watchOnly.current) || peers().includes(id),
+      joinedAt: (id) => t?.joinedAt(id) ?? null,
+    };
   }
 
-  function holderFor(gs: GameState, kind: PowerKind): string | null {
-    return kind === "heaven" ? gs.heavenHolder : gs.thumbHolder;
+  function reject(type: string, from: string | null, reason: string) {
+    setRejected((list) => [{ at: Date.now(), from, type, reason }, ...list].slice(0, 30));
   }
 
-  function canStartPower(gs: GameState, kind: PowerKind, who: string): boolean {
-    const holder = holderFor(gs, kind);
-    if (!holder || holder !== who) return false;
-    if (gs.powerRound?.active) return false;
-    return true;
-  }
+  // authority + revision checks for a full snapshot (STATE or SYNC_RESPONSE)
+  function receiveState(msg: Msg, data: GameState, sender: string | null) {
+    const current = stateRef.current;
+    const reason = checkState(current, data, sender, presence());
+    if (reason) {
+      reject(msg.type, sender, reason);
+      return;
+    }
 
-  function startPowerRoundHost(gs: GameState, kind: PowerKind, startedBy: string): GameState {
-    const next = clone(gs);
-    const holder = holderFor(next, kind);
-    if (!holder || holder !== startedBy) return next;
-    if (next.powerRound?.active) return next;
+    const incoming = reduce(current, { type: "STATE", data }, defaultCtx);
+    const rev = checkRev(current, incoming);
+    if (rev === "stale") {
+      reject(msg.type, sender, `Stale rev ${incoming.rev} (have ${current.rev}).`);
+      return;
+    }
 
-    const eligible = getTurnOrder(next);
-    if (startedBy && !eligible.includes(startedBy)) eligible.unshift(startedBy);
+    stateRef.current = incoming;
+    setState(incoming);
+    syncWait.current?.(incoming.host);
 
-    next.powerRound = {
-      kind,
-      active: true,
-      startedBy,
-      eligible: eligible.slice(0, 6),
-      tapped: [],
-      loser: null,
-      startedAt: Date.now(),
-    };
+    // snapshot is complete, but we missed revisions: confirm we are on the latest
+    if (rev === "gap") requestResync();
+  }
 
-    return next;
+  // late joiner: resolves with the host once someone tells us, or null after the timeout
+  function awaitSync(timeoutMs: number): Promise<string | null> {
+    return new Promise((resolve) => {
+      const done = (host: string | null) => {
+        clearTimeout(t);
+        syncWait.current = null;
+        resolve(host);
+      };
+      const t = setTimeout(() => done(reportedHost.current), timeoutMs);
+      syncWait.current = done;
+    });
   }
 
-  function tapPowerHost(gs: GameState, kind: PowerKind, by: string): GameState {
-    const next = clone(gs);
-    const pr = next.powerRound;
-    if (!pr || !pr.active || pr.kind !== kind) return next;
-    if (!by) return next;
+  async function joinHandshake(identity: string) {
+    reportedHost.current = null;
+    const name = myName.current;
+
+    // spectators just wait: the host (or the server poll) sends them the game
+    if (watchOnly.current) return;
 
-    if (!pr.eligible.includes(by)) return next;
-    if (pr.tapped.includes(by)) return next;
+    if (serverRef.current) {
+      await dispatch({ type: "HELLO", requestedBy: identity });
+      return;
+    }
 
-    pr.tapped.push(by);
+    const others = presence().list().filter((id) => id !== identity);
+    let host: string | null = null;
 
-    if (pr.tapped.length >= pr.eligible.length) {
-      pr.active = false;
-      pr.loser = pr.tapped[pr.tapped.length - 1] || null;
+    if (others.length) {
+      const waiting = awaitSync(SYNC_TIMEOUT_MS);
+      await send({ type: "HELLO", requestedBy: identity, name });
+      host = await waiting;
+    }
 
-      // track loss (no auto drinks)
-      if (pr.loser) {
-        ensurePlayer(next, pr.loser);
-        next.players[pr.loser].powerLosses = (next.players[pr.loser].powerLosses || 0) + 1;
+    // nobody holds host: only the earliest joiner claims it (others pick up its STATE)
+    if (!host && electHost(presence()) === identity) {
+      // a saved game (e.g. the host refreshed) is picked back up instead of starting over
+      if (stateRef.current.gameId) {
+        const migrated = await applyHost({ type: "HOST_MIGRATE", to: identity });
+        if (!migrated) await republish();
+        await applyHost({ type: "PLAYER_JOIN", id: identity, name });
+        claimRoomOwner();
+        return;
       }
+      if (await applyHost({ type: "HOST_CLAIM", by: identity, name })) claimRoomOwner();
+      return;
     }
 
-    next.powerRound = pr;
-    return next;
+    const next = reduce(stateRef.current, { type: "PLAYER_JOIN", id: identity, name }, defaultCtx);
+    stateRef.current = next;
+    setState(next);
   }
 
-  function clearPowerHost(gs: GameState): GameState {
-    const next = clone(gs);
-    next.powerRound = null;
-    return next;
-  }
+  /* =========================
+     GAME LOGIC
+  ========================= */
 
-  function isDeckLocked(gs: GameState): boolean {
-    // ONLY Ace waterfall locks draw
-    return !!gs.waterfall && (gs.waterfall.phase === "pending" || gs.waterfall.phase === "active");
-  }
+  // host only: run msg through the engine and broadcast the result (false = rejected / no-op)
+  async function applyHost(msg: Msg): Promise<boolean> {
+    const current = stateRef.current;
+    const reduced = reduce(current, msg, defaultCtx);
+    if (reduced === current) return false;
 
-  function startWaterfallHost(gs: GameState, requestedBy: string): GameState {
-    const next = clone(gs);
-    const wf = next.waterfall;
-    if (!wf) return next;
-    if (wf.phase !== "pending") return next;
-    if (wf.drawer !== requestedBy) return next;
+    const next = stamp(current, reduced);
+    stateRef.current = next;
+    setState(next);
+    await send({ type: "STATE", data: toPublic(next) });
+    return true;
+  }
 
-    wf.phase = "active";
-    wf.startedAt = Date.now();
-    next.waterfall = wf;
+  // server mode: its answer is authoritative, only ordering is checked
+  function applyServer(data: GameState) {
+    const current = stateRef.current;
+    const incoming = reduce(current, { type: "STATE", data }, defaultCtx);
+    if (checkRev(current, incoming) === "stale") return;
 
-    return next;
+    stateRef.current = incoming;
+    setState(incoming);
   }
 
-  function tickWaterfallHost(gs: GameState): GameState {
-    const next = clone(gs);
-    const wf = next.waterfall;
-    if (!wf || wf.phase !== "active" || !wf.startedAt) return next;
-
-    const elapsed = (Date.now() - wf.startedAt) / 1000;
-    if (elapsed >= wf.durationSec) {
-      // done: clear + NOW advance turn (turn stayed on drawer during waterfall)
-      next.waterfall = null;
-      next.turn = advanceTurn(next);
-    }
-    return next;
+  // host only: re-send the current state as a new revision (after a resume / reconnect)
+  async function republish() {
+    const current = stateRef.current;
+    const next = stamp(current, current);
+    stateRef.current = next;
+    setState(next);
+    await send({ type: "STATE", data: toPublic(next) });
   }
 
-  function qmCaughtHost(gs: GameState, qmBy: string, target: string): GameState {
-    const next = clone(gs);
-    if (!next.qmHolder || next.qmHolder !== qmBy) return next;
-    if (!target || target === qmBy) return next;
+  // host applies directly; guests forward the request to the host (or everyone to the server)
+  async function dispatch(msg: Msg): Promise<boolean> {
+    const server = serverRef.current;
+    if (server) {
+      try {
+        applyServer(await server.act(msg));
+        return true;
+      } catch (e: any) {
+        showToast(e?.message || String(e));
+        return false;
+      }
+    }
 
-    ensurePlayer(next, target);
-    next.players[target].qmCaught = (next.players[target].qmCaught || 0) + 1;
-    return next;
+    if (stateRef.current.host !== me.current) {
+      await send(msg);
+      return false;
+    }
+    return applyHost(msg);
   }
 
-  function kingAddRuleHost(gs: GameState, by: string, text: string): GameState {
-    const next = clone(gs);
-    if (!next.kingHolder || next.kingHolder !== by) return next;
-    const clean = text.trim();
-    if (!clean) return next;
+  // everyone answers a joiner: the host with its snapshot, guests with who they think hosts
+  async function onHello(msg: Msg, sender: string | null) {
+    if (!sender) return;
+    const reason = checkRequest(msg, sender);
+    if (reason) {
+      reject(msg.type, sender, reason);
+      return;
+    }
 
-    next.kingRules = [
-      { id: uid("rule"), text: clean, by, createdAt: Date.now() },
-      ...(next.kingRules || []),
-    ].slice(0, 20);
+    const current = stateRef.current;
+    if (current.host !== me.current) {
+      if (current.host) await send({ type: "SYNC_RESPONSE", host: current.host, data: null }, [sender]);
+      return;
+    }
 
-    return next;
+    // the name the transport vouches for (LiveKit: the token's), not whatever the HELLO says
+    const name = transportRef.current?.info(sender)?.name;
+    await applyHost({ type: "PLAYER_JOIN", id: sender, name });
+    const latest = stateRef.current;
+    await send({ type: "SYNC_RESPONSE", host: latest.host, data: toPublic(latest) }, [sender]);
   }
 
-  function kingRemoveRuleHost(gs: GameState, requestedBy: string, ruleId: string): GameState {
-    const next = clone(gs);
-    const rules = next.kingRules || [];
-    const rule = rules.find((r) => r.id === ruleId);
-    if (!rule) return next;
-
-    const isHost = next.host === requestedBy;
-    const isOwner = rule.by === requestedBy;
-
-    if (!isHost && !isOwner) return next;
+  // host left: the elected successor (earliest joiner still here) adopts the last known state
+  async function takeOverIfElected() {
+    if (electHost(presence()) !== me.current) return;
 
-    next.kingRules = rules.filter((r) => r.id !== ruleId);
-    return next;
+    const ok = await applyHost({ type: "HOST_MIGRATE", to: me.current });
+    if (!ok) return;
+    claimRoomOwner();
+    showToast("Host left. You are now the host.");
   }
 
-  async function draw() {
-    const r = roomRef.current;
-    if (!r) return;
+  // peer-to-peer: moderation rights follow the game's host (the old owner is gone, so the server lets us)
+  function claimRoomOwner() {
+    roomAdmin()
+      ?.setOwner(me.current)
+      .catch(() => {});
+  }
 
+  // my turn: draw; the host may also draw for whoever's turn it is (or for `onBehalfOf`)
+  async function draw(onBehalfOf?: string) {
+    if (!transportRef.current || watchOnly.current) return;
     const current = stateRef.current;
 
+    if (current.phase !== "playing") {
+      showToast(current.phase === "lobby" ? "The host hasn't started the game yet." : "Game over.");
+      return;
+    }
+
     // lock only for Ace waterfall
     if (isDeckLocked(current)) {
-      showToast("Deck locked (Waterfall).");
+      showToast(current.waterfall ? "Deck locked (Waterfall)." : "Deck locked (round in progress).");
       return;
     }
 
-    // host draws; guests request draw
-    if (current.host !== me.current) {
-      await send({ type: "DRAW", requestedBy: me.current });
+    const iHost = current.host === me.current;
+    const forId = onBehalfOf ?? (iHost && current.turn && current.turn !== me.current ? current.turn : undefined);
+    if (!forId && !drawerFor(current, me.current)) {
+      showToast(`It's ${displayName(current, current.turn)}'s turn.`);
       return;
     }
 
-    const next = clone(current);
-
-    if (!next.deck.length) next.deck = shuffle(buildDeck());
-
-    const card = next.deck.shift() || null;
-    next.currentCard = card;
-
-    ensurePlayer(next, me.current);
-    next.players[me.current].cardsDrawn++;
-    next.lastDrawBy = me.current;
-
-    const { rank } = parseCard(card);
+    await dispatch({ type: "DRAW", requestedBy: me.current, onBehalfOf: forId });
+  }
 
-    // holders update on draw of their card
-    if (rank === "7") next.heavenHolder = me.current;
-    if (rank === "J") next.thumbHolder = me.current;
-    if (rank === "Q") next.qmHolder = me.current; // Question Master
-    if (rank === "K") next.kingHolder = me.current;
+  async function startGame() {
+    await dispatch({ type: "GAME_START", requestedBy: me.current });
+  }
 
-    // Ace mechanics: set waterfall pending, keep turn on drawer until done
-    if (rank === "A") {
-      const durationSec = Math.floor(5 + Math.random() * 16); // 5..20 inclusive
-      next.waterfall = {
-        phase: "pending",
-        drawer: me.current,
-        durationSec,
-        startedAt: null,
-        direction: "clockwise",
-      };
-      next.turn = me.current; // stay on drawer
-    } else {
-      next.waterfall = null; // any non-ace draw clears any stale wf
-      next.turn = advanceTurn(next);
-    }
+  async function continueGame() {
+    const applied = await dispatch({ type: "GAME_CONTINUE", requestedBy: me.current });
+    if (applied) showToast("Reshuffled. Play on!");
+  }
 
-    setState(next);
-    await send({ type: "STATE", data: next });
+  async function newGame() {
+    if (!window.confirm("Start a new game? Drinks, rules and the timeline reset.")) return;
+    await dispatch({ type: "GAME_NEW", requestedBy: me.current });
   }
 
-  async function changeDrink(n: number) {
-    const current = stateRef.current;
-    const next = clone(current);
-    ensurePlayer(next, me.current);
+  // a ledger entry the host validates (own drinks; the host may log for anyone)
+  async function changeDrink(n: number, who = me.current, reason = "") {
+    if (watchOnly.current) return;
+    await dispatch({ type: "DRINK_ADD", requestedBy: me.current, who, delta: n, reason });
+  }
 
-    next.players[me.current].drinks = Math.max(0, next.players[me.current].drinks + n);
+  async function resolvePrompt(promptId: string, drink: boolean) {
+    await dispatch({ type: "PROMPT_RESOLVE", requestedBy: me.current, promptId, drink });
+  }
 
-    setState(next);
+  async function changeGroup(next: string) {
+    setGroup(next);
+    await dispatch({ type: "GROUP_SET", requestedBy: me.current, group: next || null });
+  }
 
-    await send({
-      type: "UPDATE",
-      id: me.current,
-      patch: { drinks: next.players[me.current].drinks },
-    });
+  async function undoDrink(entryId: string) {
+    await dispatch({ type: "DRINK_UNDO", requestedBy: me.current, entryId });
   }
 
   async function startPower(kind: PowerKind) {
-    const current = stateRef.current;
-
-    if (current.host !== me.current) {
-      await send({ type: "POWER_START", kind, requestedBy: me.current });
-      return;
-    }
-
-    const next = startPowerRoundHost(current, kind, me.current);
-    setState(next);
-    await send({ type: "STATE", data: next });
+    await dispatch({ type: "POWER_START", kind, requestedBy: me.current });
   }
 
   async function tapPower(kind: PowerKind) {
-    const current = stateRef.current;
-
-    if (current.host !== me.current) {
-      await send({ type: "POWER_TAP", kind, by: me.current });
-      return;
-    }
-
-    const next = tapPowerHost(current, kind, me.current);
-    setState(next);
-    await send({ type: "STATE", data: next });
+    await dispatch({ type: "POWER_TAP", kind, by: me.current });
   }
 
   async function clearPower() {
-    const current = stateRef.current;
+    await dispatch({ type: "POWER_CLEAR", requestedBy: me.current });
+  }
 
-    if (current.host !== me.current) {
-      await send({ type: "POWER_CLEAR", requestedBy: me.current });
-      return;
-    }
+  async function startRound() {
+    const word = roundWord.trim();
+    if (!word) return;
+    const applied = await dispatch({ type: "ROUND_START", requestedBy: me.current, word });
+    if (applied) setRoundWord("");
+  }
 
-    const next = clearPowerHost(current);
-    setState(next);
-    await send({ type: "STATE", data: next });
+  async function markRound(ok: boolean) {
+    await dispatch({ type: "ROUND_MARK", requestedBy: me.current, ok });
   }
 
   async function startWaterfall() {
-    const current = stateRef.current;
-    const wf = current.waterfall;
+    const wf = stateRef.current.waterfall;
     if (!wf || wf.phase !== "pending") return;
 
-    if (current.host !== me.current) {
-      await send({ type: "WATERFALL_START", requestedBy: me.current });
-      return;
-    }
-
-    const next = startWaterfallHost(current, me.current);
-    setState(next);
-    await send({ type: "STATE", data: next });
+    await dispatch({ type: "WATERFALL_START", requestedBy: me.current });
   }
 
   async function qmCaught(target: string) {
     const current = stateRef.current;
     if (!current.qmHolder || current.qmHolder !== me.current) return;
 
-    if (current.host !== me.current) {
-      await send({ type: "QM_CAUGHT", requestedBy: me.current, target });
-      return;
-    }
-
-    const next = qmCaughtHost(current, me.current, target);
-    setState(next);
-    await send({ type: "STATE", data: next });
-    showToast(`${target} answered the Question Master. (Tracked)`);
+    const applied = await dispatch({ type: "QM_CAUGHT", requestedBy: me.current, target });
+    if (applied) showToast(`${displayName(stateRef.current, target)} answered the Question Master. (Tracked)`);
   }
 
   async function kingAddRule() {
@@ -628,28 +604,180 @@ export default function Page() {
     setKingOpen(false);
     setKingText("");
 
-    if (current.host !== me.current) {
-      await send({ type: "KING_ADD_RULE", requestedBy: me.current, text });
+    const applied = await dispatch({ type: "KING_ADD_RULE", requestedBy: me.current, text });
+    if (applied) showToast("Rule added.");
+  }
+
+  async function kingRemoveRule(ruleId: string) {
+    await dispatch({ type: "KING_REMOVE_RULE", requestedBy: me.current, ruleId });
+  }
+
+  async function pickTarget(target: string) {
+    setTargetOpen(false);
+    const mate = stateRef.current.targetPick?.mechanic === "mate";
+    const applied = await dispatch({ type: "TARGET_PICK", requestedBy: me.current, target });
+    if (applied) showToast(`${displayName(stateRef.current, target)} ${mate ? "is your mate now" : "was picked"}.`);
+  }
+
+  async function clearMates() {
+    const applied = await dispatch({ type: "MATES_CLEAR", requestedBy: me.current });
+    if (applied) showToast("Mates cleared.");
+  }
+
+  /* =========================
+     HOUSE RULES
+  ========================= */
+
+  function openRules() {
+    setRulesDraft(clone(stateRef.current.rules));
+    setPresets(loadPresets());
+    setPresetJson("");
+    setRulesOpen(true);
+  }
+
+  function editRank(rank: string, patch: Partial<RankRule>) {
+    setRulesDraft((d) => (d ? { ...d, ranks: { ...d.ranks, [rank]: { ...d.ranks[rank], ...patch } } } : d));
+  }
+
+  async function applyRules() {
+    if (!rulesDraft) return;
+    const applied = await dispatch({ type: "RULES_SET", requestedBy: me.current, rules: rulesDraft });
+    if (!applied) return;
+    setRulesOpen(false);
+    showToast(`House rules: ${rulesDraft.name}.`);
+  }
+
+  function saveRulesPreset() {
+    if (!rulesDraft) return;
+    setPresets(savePreset(rulesDraft));
+    showToast(`Preset "${rulesDraft.name}" saved on this device.`);
+  }
+
+  async function copyRulesJson() {
+    if (!rulesDraft) return;
+    await navigator.clipboard?.writeText(presetToJson(rulesDraft)).then(
+      () => showToast("Preset JSON copied."),
+      () => {}
+    );
+  }
+
+  function importRulesJson() {
+    const rules = presetFromJson(presetJson);
+    if (!rules) {
+      showToast("That isn't a rule preset.");
       return;
     }
-
-    const next = kingAddRuleHost(current, me.current, text);
-    setState(next);
-    await send({ type: "STATE", data: next });
-    showToast("Rule added.");
+    setRulesDraft(rules);
+    setPresetJson("");
   }
 
-  async function kingRemoveRule(ruleId: string) {
-    const current = stateRef.current;
+  // in-game: any seated player; the deck (and seed) go along so the committed shuffle carries on
+  async function transferHost(to: string) {
+    const msg: Msg = { type: "HOST_TRANSFER", requestedBy: me.current, to };
+    const who = displayName(stateRef.current, to);
 
-    if (current.host !== me.current) {
-      await send({ type: "KING_REMOVE_RULE", requestedBy: me.current, ruleId });
+    if (serverRef.current) {
+      if (await dispatch(msg)) showToast(`${who} is now the host.`);
       return;
     }
 
-    const next = kingRemoveRuleHost(current, me.current, ruleId);
-    setState(next);
-    await send({ type: "STATE", data: next });
+    const current = stateRef.current;
+    if (current.host !== me.current) return;
+    const reduced = reduce(current, msg, defaultCtx);
+    if (reduced === current) return;
+
+    const next = stamp(current, reduced);
+    const mine = toPublic(next); // we are a guest now: no deck for us either
+    stateRef.current = mine;
+    setState(mine);
+
+    await send({ type: "STATE", data: next }, [to]);
+    const others = transportRef.current?.peers().filter((id) => id !== to) ?? [];
+    if (others.length) await send({ type: "STATE", data: mine }, others);
+
+    roomAdmin()
+      ?.setOwner(to)
+      .catch(() => {});
+    showToast(`${who} is now the host.`);
+  }
+
+  /* =========================
+     ROOM ADMIN (host)
+  ========================= */
+
+  function roomAdmin() {
+    return tokenRef.current ? createRoomAdmin(roomCode.trim(), tokenRef.current) : null;
+  }
+
+  // host tools: every call re-checks host status server-side, errors end up in a toast
+  async function runAdmin<T>(fn: (admin: NonNullable<ReturnType<typeof roomAdmin>>) => Promise<T>) {
+    const admin = roomAdmin();
+    if (!admin) return null;
+    try {
+      return await fn(admin);
+    } catch (e: any) {
+      showToast(e?.message || String(e));
+      return null;
+    }
+  }
+
+  async function openAccess() {
+    setAccessOpen(true);
+    const info = await runAdmin((a) => a.info());
+    if (info) setAccess(info);
+  }
+
+  async function saveRoomPassword(pw: string | null) {
+    const info = await runAdmin((a) => a.setPassword(pw));
+    if (!info) return;
+    setAccess(info);
+    setNewPassword("");
+    showToast(info.password ? "Room password set." : "Room password removed.");
+  }
+
+  async function setRoomLocked(locked: boolean) {
+    const info = await runAdmin((a) => a.setLocked(locked));
+    if (!info) return;
+    setAccess(info);
+    showToast(info.locked ? "Room locked: no new joins." : "Room unlocked.");
+  }
+
+  async function kickPlayer(id: string) {
+    const who = displayName(stateRef.current, id);
+    if (!window.confirm(`Remove ${who} from the room?`)) return;
+    const done = await runAdmin((a) => a.kick(id).then(() => true));
+    if (done) showToast(`${who} was removed.`);
+  }
+
+  async function mutePlayer(id: string) {
+    const n = await runAdmin((a) => a.mute(id));
+    if (n !== null) showToast(`${displayName(stateRef.current, id)}: ${n} track(s) muted.`);
+  }
+
+  async function makeInvite(ttlMinutes: number) {
+    await runAdmin(async (admin) => {
+      const { invite } = await admin.createInvite(ttlMinutes);
+      const u = new URL(window.location.origin + window.location.pathname);
+      u.searchParams.set("room", roomCode.trim());
+      u.searchParams.set("invite", invite);
+      setInviteLink(u.toString());
+      await navigator.clipboard?.writeText(u.toString()).then(
+        () => showToast("Invite link copied."),
+        () => {}
+      );
+    });
+  }
+
+  // the room box also takes a pasted invite link
+  function onRoomInput(text: string) {
+    const link = parseJoinLink(text);
+    if (!link) {
+      setRoomCode(text);
+      return;
+    }
+    setRoomCode(link.room);
+    setInvite(link.invite);
+    setLocalMode(false);
   }
 
   /* =========================
@@ -678,251 +806,231 @@ export default function Page() {
      CONNECT / DISCONNECT
   ========================= */
 
-  async function connect() {
-    setErrMsg("");
+  function onPeerJoin(id: string, info: PeerInfo) {
+    if (info.spectator) {
+      spectators.current.set(id, info.name || id);
+      setWatchers(Array.from(spectators.current.values()));
 
-    const roomName = roomCode.trim();
-    const identity = name.trim();
+      // they can't ask (no data grant), so the host hands them the game as they arrive
+      const current = stateRef.current;
+      if (!serverRef.current && current.host === me.current) {
+        send({ type: "SYNC_RESPONSE", host: current.host, data: toPublic(current) }, [id]);
+      }
+      return;
+    }
 
-    if (!roomName || !identity) {
-      setErrMsg("Enter a room + name.");
+    // server mode: seats come from the server, not from who LiveKit says is here
+    if (serverRef.current) return;
+    setState((s) => reduce(s, { type: "PLAYER_JOIN", id, name: info.name }, defaultCtx));
+  }
+
+  function onPeerLeave(id: string) {
+    if (spectators.current.delete(id)) {
+      setWatchers(Array.from(spectators.current.values()));
       return;
     }
 
-    setJoining(true);
+    // server mode: the server frees the seat (and hands over hosting) itself
+    if (serverRef.current) return;
 
-    try {
-      const res = await fetch(`/api/token?room=${encodeURIComponent(roomName)}&name=${encodeURIComponent(identity)}`);
-      const data = await res.json();
+    const current = stateRef.current;
+    const wasHost = current.host === id;
 
-      if (!res.ok) throw new Error(data?.error || `Token API failed (${res.status})`);
-      if (!data?.token || !data?.url) throw new Error("Token API returned missing token/url.");
+    const next = reduce(current, { type: "PLAYER_LEAVE", id }, defaultCtx);
+    stateRef.current = next;
+    setState(next);
 
-      const room = new Room();
-      roomRef.current = room;
-      me.current = identity;
+    if (wasHost) takeOverIfElected();
+  }
 
-      room.on(RoomEvent.TrackSubscribed, (track, _pub, participant) => {
-        setState((s) => {
-          const n = clone(s);
-          ensurePlayer(n, participant.identity);
-          if (!n.turn) n.turn = n.host || participant.identity;
-          return n;
-        });
+  function onData(buf: Uint8Array, sender: string | null) {
+    const decoded = decodeMsg(buf);
+    if (!decoded.ok) {
+      setDropped((n) => n + 1);
+      reject(decoded.error.toUpperCase(), sender, decoded.reason);
+      if (decoded.error === "version") setPeerVersion(decoded.version ?? 0);
+      return;
+    }
 
-        if (track.kind === Track.Kind.Video) attachTrackToIdentity(track, participant.identity);
-      });
+    const msg = decoded.msg;
 
-      room.on(RoomEvent.ParticipantConnected, (participant) => {
-        setState((s) => {
-          const n = clone(s);
-          ensurePlayer(n, participant.identity);
-          if (!n.turn) n.turn = n.host || participant.identity;
-          return n;
-        });
-      });
+    // server mode: peers don't run the game, the polled server state does
+    if (serverRef.current) return;
 
-      room.on(RoomEvent.ParticipantDisconnected, (participant) => {
-        setState((s) => {
-          const n = clone(s);
-
-          if (n.players[participant.identity]) delete n.players[participant.identity];
-          if (n.turn === participant.identity) n.turn = advanceTurn(n);
-
-          if (n.heavenHolder === participant.identity) n.heavenHolder = null;
-          if (n.thumbHolder === participant.identity) n.thumbHolder = null;
-          if (n.qmHolder === participant.identity) n.qmHolder = null;
-          if (n.kingHolder === participant.identity) n.kingHolder = null;
-
-          if (n.powerRound?.active) {
-            const pr = n.powerRound;
-            pr.eligible = pr.eligible.filter((id) => id !== participant.identity);
-            pr.tapped = pr.tapped.filter((id) => id !== participant.identity);
-
-            if (pr.eligible.length > 0 && pr.tapped.length >= pr.eligible.length) {
-              pr.active = false;
-              pr.loser = pr.tapped[pr.tapped.length - 1] || null;
-
-              if (pr.loser) {
-                ensurePlayer(n, pr.loser);
-                n.players[pr.loser].powerLosses = (n.players[pr.loser].powerLosses || 0) + 1;
-              }
-            }
-            n.powerRound = pr;
-          }
-
-          // if waterfall drawer leaves, cancel waterfall
-          if (n.waterfall && n.waterfall.drawer === participant.identity) {
-            n.waterfall = null;
-            n.turn = advanceTurn(n);
-          }
-
-          return n;
-        });
-      });
+    if (msg.type === "STATE") {
+      receiveState(msg, msg.data, sender);
+      return;
+    }
 
-      room.on(RoomEvent.DataReceived, (buf) => {
-        const msg = decode(buf);
-        if (!msg) return;
-
-        if (msg.type === "STATE") {
-          const incoming: GameState = {
-            host: msg.data.host ?? null,
-            deck: msg.data.deck ?? [],
-            currentCard: msg.data.currentCard ?? null,
-            turn: msg.data.turn ?? msg.data.host ?? null,
-            lastDrawBy: msg.data.lastDrawBy ?? null,
-            players: msg.data.players ?? {},
-
-            heavenHolder: msg.data.heavenHolder ?? null,
-            thumbHolder: msg.data.thumbHolder ?? null,
-            qmHolder: msg.data.qmHolder ?? null,
-            kingHolder: msg.data.kingHolder ?? null,
-
-            powerRound: msg.data.powerRound ?? null,
-            waterfall: msg.data.waterfall ?? null,
-            kingRules: msg.data.kingRules ?? [],
-          };
-
-          // backward-safe stats
-          for (const id of Object.keys(incoming.players)) ensurePlayer(incoming, id);
-
-          setState(incoming);
-          return;
-        }
+    if (msg.type === "SYNC_RESPONSE") {
+      if (msg.data) receiveState(msg, msg.data, sender);
+      else if (msg.host) reportedHost.current = msg.host;
+      return;
+    }
 
-        if (msg.type === "DRAW") {
-          const current = stateRef.current;
-          if (roomRef.current && me.current && current.host === me.current) draw();
-          return;
-        }
+    if (msg.type === "HELLO") {
+      onHello(msg, sender);
+      return;
+    }
 
-        if (msg.type === "POWER_START") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const next = startPowerRoundHost(current, msg.kind as PowerKind, msg.requestedBy as string);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          return;
-        }
+    if (msg.type === "SYNC_REQUEST") {
+      const current = stateRef.current;
+      if (current.host !== me.current || !sender) return;
+      if (msg.haveRev >= current.rev) return;
+      send({ type: "SYNC_RESPONSE", host: current.host, data: toPublic(current) }, [sender]);
+      return;
+    }
 
-        if (msg.type === "POWER_TAP") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const next = tapPowerHost(current, msg.kind as PowerKind, msg.by as string);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          return;
-        }
+    // show toast locally too
+    if (msg.type === "QM_CAUGHT" && msg.target) {
+      showToast(`${displayName(stateRef.current, msg.target)} answered the Question Master. (Tracked)`);
+    }
 
-        if (msg.type === "POWER_CLEAR") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const requestedBy = msg.requestedBy as string;
+    // everything else is a request only the host answers
+    if (!GUEST_REQUESTS.includes(msg.type)) return;
+    if (stateRef.current.host !== me.current) return;
 
-            const pr = current.powerRound;
-            if (!pr) return;
+    const reason = checkRequest(msg, sender);
+    if (reason) {
+      reject(msg.type, sender, reason);
+      return;
+    }
+    applyHost(msg);
+  }
 
-            const holder = pr.kind === "heaven" ? current.heavenHolder : current.thumbHolder;
-            const allowed = requestedBy === current.host || (holder && requestedBy === holder);
-            if (!allowed) return;
+  // the link came back: whatever we missed meanwhile, get (or give) the latest snapshot
+  async function onReconnected() {
+    setReconnecting(false);
+    if (serverRef.current) return;
 
-            const next = clearPowerHost(current);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          return;
-        }
+    if (stateRef.current.host === me.current) await republish();
+    else {
+      lastResyncAt.current = 0;
+      await requestResync();
+    }
+  }
 
-        if (msg.type === "WATERFALL_START") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const next = startWaterfallHost(current, msg.requestedBy as string);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          return;
-        }
+  async function connect() {
+    setErrMsg("");
 
-        if (msg.type === "QM_CAUGHT") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const next = qmCaughtHost(current, msg.requestedBy as string, msg.target as string);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          // show toast locally too
-          if (msg.target) showToast(`${msg.target} answered the Question Master. (Tracked)`);
-          return;
-        }
+    const roomName = roomCode.trim();
+    const displayed = name.trim().slice(0, 32); // the token route caps it the same way
 
-        if (msg.type === "KING_ADD_RULE") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const next = kingAddRuleHost(current, msg.requestedBy as string, msg.text as string);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          return;
-        }
+    if (!roomName || !displayed) {
+      setErrMsg("Enter a room + name.");
+      return;
+    }
 
-        if (msg.type === "KING_REMOVE_RULE") {
-          const current = stateRef.current;
-          if (current.host === me.current) {
-            const next = kingRemoveRuleHost(current, msg.requestedBy as string, msg.ruleId as string);
-            setState(next);
-            send({ type: "STATE", data: next });
-          }
-          return;
-        }
+    setJoining(true);
 
-        if (msg.type === "UPDATE") {
-          setState((s) => {
-            const n = clone(s);
-            ensurePlayer(n, msg.id);
-            Object.assign(n.players[msg.id], msg.patch);
-            return n;
-          });
-        }
-      });
+    const events: TransportEvents = {
+      onData,
+      onPeerJoin,
+      onPeerLeave,
+      onReconnecting: () => setReconnecting(true),
+      onReconnected,
+      onClose: () => {
+        setReconnecting(false);
+        setConnected(false);
+      },
+    };
 
-      room.on(RoomEvent.Disconnected, () => setConnected(false));
+    try {
+      myName.current = displayed;
+      watchOnly.current = spectate;
+      spectators.current.clear();
+      setWatchers([]);
 
-      await room.connect(data.url, data.token);
-      setConnected(true);
+      // the token route issues identities; local tabs make up their own
+      let identity = "";
+      let token: { token: string; url: string } | null = null;
 
-      const current = stateRef.current;
-      const next = clone(current);
-      ensurePlayer(next, identity);
+      if (localMode) {
+        identity = tabIdentity();
+      } else {
+        // password and invite go in the body, never in a URL
+        const res = await fetch("/api/token", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            room: roomName,
+            name: displayed,
+            ...loadIdentity(),
+            password: password || undefined,
+            invite: invite || undefined,
+            role: spectate ? "spectator" : undefined,
+            mode: serverMode ? "server" : undefined,
+          }),
+        });
+        const data = await res.json();
+
+        if (data?.needsPassword) setNeedsPassword(true);
+        if (!res.ok) throw new Error(data?.error || `Token API failed (${res.status})`);
+        if (!data?.token || !data?.url) throw new Error("Token API returned missing token/url.");
+        if (!data?.identity) throw new Error("Token API returned no identity.");
 
-      if (!next.host) {
-        next.host = identity;
-        next.deck = shuffle(buildDeck());
-        next.turn = identity;
+        identity = data.identity;
+        token = data;
+        tokenRef.current = data.token;
+        saveIdentity({ identity: data.identity, claim: data.claim });
+      }
+
+      me.current = identity;
+
+      // same identity + room as before a refresh: start from the saved snapshot
+      const saved = loadSession(roomName);
+      const resumed = saved && saved.identity === identity && !serverMode ? saved.state : null;
+      const start = resumed ? reduce(emptyState(), { type: "STATE", data: resumed }, defaultCtx) : emptyState();
+      stateRef.current = start;
+      setState(start);
+
+      let room: Room | null = null;
+      let transport: Transport;
+
+      if (!token) {
+        // same-device tabs, no LiveKit, no video
+        transport = createLocalTransport(roomName, identity, { name: displayed, spectator: spectate }, events);
       } else {
-        if (!next.turn) next.turn = next.host;
+        const data = token;
+        room = new Room();
+        roomRef.current = room;
+
+        room.on(RoomEvent.TrackSubscribed, (track, _pub, participant) => {
+          if (track.kind === Track.Kind.Video) attachTrackToIdentity(track, participant.identity);
+        });
+        room.on(RoomEvent.ActiveSpeakersChanged, (speakers) => onActiveSpeakers(speakers.map((s) => s.identity)));
+
+        transport = createLiveKitTransport(room, data.url, data.token, identity, events);
+        if (serverMode) serverRef.current = createServerGame(roomName, data.token);
       }
 
-      setState(next);
-      await send({ type: "STATE", data: next });
+      transportRef.current = transport;
+      await transport.connect();
+      setConnected(true);
 
-      try {
-        await room.localParticipant.setCameraEnabled(true);
-        await room.localParticipant.setMicrophoneEnabled(true);
-        await attachLocalTracks(room, identity);
-      } catch (e: any) {
-        setErrMsg(`Camera/mic blocked: ${e?.message || e}`);
+      await joinHandshake(identity);
+      if (!spectate && group.trim()) await dispatch({ type: "GROUP_SET", requestedBy: identity, group });
+
+      if (room && !spectate) {
+        try {
+          await room.localParticipant.setCameraEnabled(true);
+          await room.localParticipant.setMicrophoneEnabled(true);
+          await attachLocalTracks(room, identity);
+        } catch (e: any) {
+          setErrMsg(`Camera/mic blocked: ${e?.message || e}`);
+        }
       }
     } catch (e: any) {
       setErrMsg(e?.message || String(e));
       setConnected(false);
-      if (roomRef.current) {
+      if (transportRef.current) {
         try {
-          roomRef.current.disconnect();
+          transportRef.current.disconnect();
         } catch {}
       }
+      transportRef.current = null;
+      serverRef.current = null;
+      tokenRef.current = "";
       roomRef.current = null;
     } finally {
       setJoining(false);
@@ -931,61 +1039,188 @@ export default function Page() {
 
   function disconnect() {
     setErrMsg("");
-    const r = roomRef.current;
-    if (r) {
+    const t = transportRef.current;
+    if (t) {
       try {
-        r.disconnect();
+        t.disconnect();
       } catch {}
     }
+    transportRef.current = null;
+    serverRef.current = null;
+    tokenRef.current = "";
     roomRef.current = null;
 
-    setState(clone(emptyState));
+    // leaving on purpose: don't offer this game back on the next join
+    clearSession(roomCode.trim());
+    setState(emptyState());
+    setAccessOpen(false);
+    setInviteLink("");
+    setAccess(null);
+    setPage(0);
+    setStage([]);
+    setRejected([]);
+    setDropped(0);
+    setPeerVersion(null);
     setConnected(false);
   }
 
+  /* =========================
+     RESUME (local storage)
+  ========================= */
+
+  useEffect(() => {
+    const last = lastJoin();
+    if (!last) return;
+    if (last.room) setRoomCode(last.room);
+    if (last.name) setName(last.name);
+
+    const saved = last.room ? loadSession(last.room) : null;
+    if (saved) {
+      setLocalMode(saved.localMode);
+      setServerMode(saved.serverMode);
+    }
+  }, []);
+
+  // ?room=... (and ?invite=...) in the page URL beats whatever we joined last
+  useEffect(() => {
+    const link = parseJoinLink(window.location.href);
+    if (!link) return;
+    setRoomCode(link.room);
+    setInvite(link.invite);
+    setLocalMode(false);
+  }, []);
+
+  useEffect(() => {
+    if (!connected || !me.current) return;
+    saveSession({
+      room: roomCode.trim(),
+      identity: me.current,
+      name: name.trim(),
+      localMode,
+      serverMode,
+      state,
+      savedAt: Date.now(),
+    });
+  }, [connected, state]);
+
+  useEffect(() => {
+    setHistory((h) => {
+      if (h.gameId !== state.gameId) return { gameId: state.gameId, events: state.events };
+      const events = mergeEvents(h.events, state.events);
+      return events === h.events ? h : { gameId: h.gameId, events };
+    });
+  }, [state.gameId, state.events]);
+
   /* =========================
      WATERFALL TICK (host only)
   ========================= */
 
   useEffect(() => {
     if (!connected) return;
+    if (serverRef.current) return;
     if (state.host !== me.current) return;
 
-    const i = setInterval(() => {
-      const current = stateRef.current;
-      const next = tickWaterfallHost(current);
-      if (next !== current) {
-        setState(next);
-        send({ type: "STATE", data: next });
-      }
+    const i = setInterval(async () => {
+      await applyHost({ type: "WATERFALL_TICK" });
+      await applyHost({ type: "ROUND_TICK" });
     }, 250);
 
     return () => clearInterval(i);
   }, [connected, state.host]);
 
+  /* =========================
+     SERVER POLL (server mode only)
+  ========================= */
+
+  useEffect(() => {
+    if (!connected) return;
+    const server = serverRef.current;
+    if (!server) return;
+
+    let busy = false;
+    const i = setInterval(async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        const next = await server.poll(stateRef.current);
+        if (next) applyServer(next);
+      } catch {
+        // keep polling; the next tick retries
+      } finally {
+        busy = false;
+      }
+    }, 1000);
+
+    return () => clearInterval(i);
+  }, [connected]);
+
+  // the round countdown redraws on its own; everything else waits for state
+  const roundRunning = state.goRound?.phase === "active";
+  useEffect(() => {
+    if (!roundRunning) return;
+    const i = setInterval(() => setClock(Date.now()), 500);
+    return () => clearInterval(i);
+  }, [roundRunning]);
+
   /* =========================
      UI / ORDERING / LAYOUT
   ========================= */
 
   const orderedPlayers = useMemo(() => {
-    const mine = me.current ? [me.current] : [];
-    const others = Object.keys(state.players)
-      .filter((id) => id && id !== me.current)
-      .sort((a, b) => a.localeCompare(b));
-    return [...mine, ...others].slice(0, 6);
+    const mine = me.current && !watchOnly.current ? [me.current] : [];
+    return [...mine, ...othersOf(state)];
   }, [state.players]);
 
-  const slotIds = useMemo(() => {
-    const filled = [...orderedPlayers];
-    while (filled.length < 6) filled.push(`__EMPTY__${filled.length + 1}`);
-    return filled.slice(0, 6);
-  }, [orderedPlayers]);
+  // me first, then speakers, then everyone else; paged when the table outgrows one screen
+  const videoIds = useMemo(() => {
+    const mine = orderedPlayers[0] === me.current ? [me.current] : [];
+    return [...mine, ...videoOrder(othersOf(state), stage)];
+  }, [orderedPlayers, stage]);
+
+  const pageCount = Math.max(1, Math.ceil(videoIds.length / TILES_PER_PAGE));
+  const pageIdx = Math.min(page, pageCount - 1);
+  const pageIds = videoIds.slice(pageIdx * TILES_PER_PAGE, (pageIdx + 1) * TILES_PER_PAGE);
 
-  const effectiveCount = Math.min(6, Math.max(1, orderedPlayers.length || 1));
+  const effectiveCount = pageCount > 1 ? TILES_PER_PAGE : Math.max(1, pageIds.length || 1);
   const layout = computeVideoLayout(effectiveCount);
 
-  const ruleText = useMemo(() => ruleForCard(state.currentCard), [state.currentCard]);
-  const turnLabel = state.turn || state.host || "—";
+  // up to six keeps the classic padded grid; bigger tables pad the page to its layout
+  const tiles = Math.max(6, pageIds.length, LAYOUT_SLOTS[layout] ?? 0);
+  const slotIds = useMemo(() => {
+    const filled = [...pageIds];
+    while (filled.length < tiles) filled.push(`__EMPTY__${filled.length + 1}`);
+    return filled;
+  }, [pageIds.join("|"), tiles]);
+
+  // tiles come and go with paging: (re)attach whatever video the visible players publish
+  useEffect(() => {
+    const room = roomRef.current;
+    if (!connected || !room) return;
+    for (const id of pageIds) {
+      const p = id === me.current ? room.localParticipant : room.getParticipantByIdentity(id);
+      p?.videoTrackPublications.forEach((pub) => {
+        if (pub.track) attachTrackToIdentity(pub.track, id);
+      });
+    }
+  }, [connected, pageIds.join("|")]);
+
+  const seatsTaken = Object.keys(state.players).length;
+  const tableFull = connected && !watchOnly.current && !!state.host && !state.players[me.current];
+
+  const ruleText = useMemo(() => ruleForCard(state.currentCard, state.rules), [state.currentCard, state.rules]);
+  const nameOf = (id: string | null) => displayName(state, id);
+  const turnLabel = nameOf(state.turn || state.host);
+
+  function exportSession(format: "json" | "csv") {
+    const room = roomCode.trim() || "kad";
+    const stampText = new Date().toISOString().slice(0, 16).replace(/[:T]/g, "-");
+    if (format === "json") {
+      const text = JSON.stringify(sessionExport({ ...state, events: history.events }, room, Date.now()), null, 2);
+      downloadText(`kad-kings-${room}-${stampText}.json`, text, "application/json");
+    } else {
+      downloadText(`kad-kings-${room}-${stampText}.csv`, eventsToCsv(history.events, nameOf), "text/csv");
+    }
+  }
 
   function badgeRowForPlayer(id: string) {
     const b: string[] = [];
@@ -993,6 +1228,7 @@ export default function Page() {
     if (state.thumbHolder === id) b.push("👍");
     if (state.qmHolder === id) b.push("❓");
     if (state.kingHolder === id) b.push("👑");
+    if (state.mates.some((pair) => pair.includes(id))) b.push("🤝");
     return b.join(" ");
   }
 
@@ -1018,8 +1254,28 @@ export default function Page() {
     return Math.ceil(left);
   }, [wf, state.waterfall?.startedAt, state.waterfall?.durationSec]);
 
+  const gr = state.goRound;
+  const roundLeft =
+    gr?.phase === "active" && gr.turnStartedAt
+      ? Math.max(0, Math.ceil(gr.turnSec - (clock - gr.turnStartedAt) / 1000))
+      : null;
+
+  // replay every revealed shuffle against the cards that were actually drawn
+  const fairness = useMemo(() => {
+    const bad = (state.revealed || [])
+      .map(verifyShuffle)
+      .find((v): v is { ok: false; reason: string } => !v.ok);
+    if (!state.revealed?.length) return null;
+    return bad ? { ok: false, text: bad.reason } : { ok: true, text: `${state.revealed.length} deck(s) verified` };
+  }, [state.revealed]);
+
+  const iAmHost = !!me.current && state.host === me.current;
+  const myTurn = !!drawerFor(state, me.current) && !watchOnly.current;
+  const canDraw = myTurn || (iAmHost && !!state.turn && state.phase === "playing");
   const iAmQm = state.qmHolder === me.current;
   const iAmKing = state.kingHolder === me.current;
+  const myGroup = state.players[me.current]?.group ?? "";
+  const groupOptions = Array.from(new Set([...groupsIn(state.rules), ...(myGroup ? [myGroup] : [])]));
 
   function CardFace({ card }: { card: string | null }) {
     const { rank: rnk, suit: sut } = parseCard(card);
@@ -1286,10 +1542,14 @@ export default function Page() {
             <span
               className="dotB"
               style={{
-                background: connected ? "rgba(34,197,94,0.9)" : "rgba(148,163,184,0.9)",
+                background: reconnecting
+                  ? "rgba(251,191,36,0.9)"
+                  : connected
+                  ? "rgba(34,197,94,0.9)"
+                  : "rgba(148,163,184,0.9)",
               }}
             />
-            {connected ? "Connected" : "Not connected"}
+            {reconnecting ? "Reconnecting…" : connected ? "Connected" : "Not connected"}
           </div>
         </div>
       </div>
@@ -1298,7 +1558,7 @@ export default function Page() {
         <div className="cardB joinCardB">
           <div className="fieldB">
             <div>Room</div>
-            <input value={roomCode} onChange={(e) => setRoomCode(e.target.value)} placeholder="kad" />
+            <input value={roomCode} onChange={(e) => onRoomInput(e.target.value)} placeholder="kad or an invite link" />
           </div>
 
           <div className="fieldB">
@@ -1306,10 +1566,64 @@ export default function Page() {
             <input value={name} onChange={(e) => setName(e.target.value)} placeholder="your name" />
           </div>
 
+          <div className="fieldB">
+            <div>Group (optional)</div>
+            <input
+              value={group}
+              maxLength={MAX_GROUP}
+              onChange={(e) => setGroup(e.target.value)}
+              placeholder={`for group cards, e.g. ${groupsIn(CLASSIC_RULES).join(" / ")}`}
+              list="groupTags"
+            />
+            <datalist id="groupTags">
+              {groupsIn(CLASSIC_RULES).map((g) => (
+                <option key={g} value={g} />
+              ))}
+            </datalist>
+          </div>
+
+          {needsPassword || password ? (
+            <div className="fieldB">
+              <div>Password</div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="room password"
+              />
+            </div>
+          ) : null}
+
+          {invite ? <div className="statusB">🎟️ Joining with an invite link</div> : null}
+
           <div className="rowB">
             <button className="btnB btnPrimaryB" onClick={connect} disabled={joining}>
               {joining ? "Joining..." : "Join"}
             </button>
+            <button
+              className="btnB"
+              onClick={() => setLocalMode((v) => !v)}
+              disabled={joining}
+              title="Play across tabs on this device: no LiveKit, no video"
+            >
+              {localMode ? "Local tabs: ON" : "Local tabs: OFF"}
+            </button>
+            <button
+              className="btnB"
+              onClick={() => setServerMode((v) => !v)}
+              disabled={joining || localMode}
+              title="Let the server run the rules: the game survives the host leaving or refreshing"
+            >
+              {serverMode && !localMode ? "Server rules: ON" : "Server rules: OFF"}
+            </button>
+            <button
+              className="btnB"
+              onClick={() => setSpectate((v) => !v)}
+              disabled={joining}
+              title="Watch the video and the card without taking a seat"
+            >
+              {spectate ? "Watch only: ON" : "Watch only: OFF"}
+            </button>
           </div>
 
           {errMsg ? (
@@ -1326,9 +1640,57 @@ export default function Page() {
             <div className="cardHeadB">
               <h2>Players</h2>
               <div className="rowB" style={{ justifyContent: "flex-end" }}>
+                {pageCount > 1 ? (
+                  <div className="statusB" style={{ padding: "4px 6px" }}>
+                    <button className="btnB btnTinyB" onClick={() => setPage(pageIdx - 1)} disabled={pageIdx === 0}>
+                      ‹
+                    </button>
+                    <span style={{ margin: "0 8px" }}>
+                      {pageIdx + 1}/{pageCount}
+                    </span>
+                    <button
+                      className="btnB btnTinyB"
+                      onClick={() => setPage(pageIdx + 1)}
+                      disabled={pageIdx >= pageCount - 1}
+                    >
+                      ›
+                    </button>
+                  </div>
+                ) : null}
+                <div className="statusB" style={{ padding: "8px 10px" }} title="Seats taken / table size">
+                  🪑 {seatsTaken}/
+                  {iAmHost ? (
+                    <select
+                      value={state.maxPlayers}
+                      onChange={(e) => setMaxPlayers(Number(e.target.value))}
+                      style={{ marginLeft: 4 }}
+                    >
+                      {Array.from({ length: MAX_PLAYERS_LIMIT - 1 }, (_, i) => i + 2).map((n) => (
+                        <option key={n} value={n}>
+                          {n}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    state.maxPlayers
+                  )}
+                </div>
                 <div className="statusB" style={{ padding: "8px 10px" }}>
-                  Host: <b style={{ marginLeft: 6 }}>{state.host || "—"}</b>
+                  Host: <b style={{ marginLeft: 6 }}>{nameOf(state.host)}</b>
                 </div>
+                {state.host === me.current && tokenRef.current ? (
+                  <button className="btnB btnTinyB" onClick={openAccess} title="Room password / invites / lock">
+                    {access?.locked ? "🔒" : "🔑"} Access
+                  </button>
+                ) : null}
+                <button className="btnB btnTinyB" onClick={openRules} title="What each card does">
+                  📜 {state.rules.name}
+                </button>
+                {iAmHost ? (
+                  <button className="btnB btnTinyB" onClick={reverseDirection} title="Reverse turn direction">
+                    {state.direction === "clockwise" ? "↻" : "↺"} Reverse
+                  </button>
+                ) : null}
                 <button className="btnB btnDangerB btnTinyB" onClick={disconnect}>
                   Leave
                 </button>
@@ -1341,6 +1703,20 @@ export default function Page() {
               </div>
             ) : null}
 
+            {peerVersion !== null ? (
+              <div className="noteB" style={{ color: "rgba(251,191,36,0.95)", fontWeight: 900 }}>
+                {peerVersion > PROTOCOL_VERSION
+                  ? "A newer version of KAD-KINGS is running in this room. Please refresh the page."
+                  : "Someone in this room is on an older version of KAD-KINGS. Ask them to refresh."}
+              </div>
+            ) : null}
+
+            {tableFull ? (
+              <div className="noteB" style={{ color: "rgba(251,191,36,0.95)", fontWeight: 900 }}>
+                The table is full ({state.maxPlayers} seats). You can watch; rejoin when a seat opens.
+              </div>
+            ) : null}
+
             <div className="videoGridB" data-layout={layout}>
               {slotIds.map((id) => {
                 const isEmpty = id.startsWith("__EMPTY__");
@@ -1368,7 +1744,7 @@ export default function Page() {
                       webkit-playsinline="true"
                     />
                     {badges ? <div className="powerPillB">{badges}</div> : null}
-                    <div className="vTag">{id}</div>
+                    <div className="vTag">{nameOf(id)}</div>
                   </div>
                 );
               })}
@@ -1377,30 +1753,96 @@ export default function Page() {
 
           <div className="bottomBarB">
             <div className="cardB deckMiniB">
-              <button className="drawComboB" onClick={draw} disabled={deckLocked}>
+              <button className="drawComboB" onClick={() => draw()} disabled={deckLocked || !canDraw}>
                 <div className="cardSquareB">
                   <CardFace card={state.currentCard} />
                 </div>
 
                 <div className="drawTextB">
-                  <div className="drawTitleB">TURN</div>
+                  <div className="drawTitleB">TURN {state.direction === "clockwise" ? "↻" : "↺"}</div>
                   <div className="turnLineB">{turnLabel}</div>
                   <div className="ruleLineB">{ruleText}</div>
                   <div className="tapLineB">
-                    {deckLocked
+                    {state.phase === "lobby"
+                      ? "Lobby: waiting for the host to start"
+                      : state.phase === "finished"
+                      ? "Game over"
+                      : watchOnly.current
+                      ? "Watching"
+                      : deckLocked
                       ? "Deck locked"
-                      : state.host === me.current
+                      : myTurn
                       ? "Tap to draw"
-                      : "Tap to request draw"}
+                      : iAmHost
+                      ? `Tap to draw for ${turnLabel}`
+                      : `Waiting for ${turnLabel}`}
                   </div>
                 </div>
 
                 <div className="drawMetaB">
-                  <div className="metaPillB">🃏 {state.deck.length}</div>
-                  <div className="metaPillB">{state.host === me.current ? "HOST" : "GUEST"}</div>
+                  <div className="metaPillB">🃏 {state.deckCount}</div>
+                  <div className="metaPillB" title="Kings drawn; the fourth is the King's Cup">
+                    👑 {state.kingsDrawn}/4
+                  </div>
+                  {state.shuffleCommit ? (
+                    <div className="metaPillB" title={`Shuffle commitment (sha-256 of seed): ${state.shuffleCommit.commit}`}>
+                      🔒 {state.shuffleCommit.commit.slice(0, 6)}
+                    </div>
+                  ) : null}
+                  {fairness ? (
+                    <div className="metaPillB" title={fairness.text}>
+                      {fairness.ok ? "✅ FAIR" : "⚠️ CHECK"}
+                    </div>
+                  ) : null}
+                  <div className="metaPillB">
+                    {state.host === me.current ? "HOST" : watchOnly.current ? "WATCHING" : "GUEST"}
+                  </div>
+                  {watchers.length ? (
+                    <div className="metaPillB" title={watchers.join(", ")}>
+                      👀 {watchers.length}
+                    </div>
+                  ) : null}
                 </div>
               </button>
 
+              {/* LIFECYCLE: lobby start, King's Cup, game over */}
+              {state.phase === "lobby" ? (
+                <div className="miniActionsB">
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    LOBBY · {seatsTaken} seated
+                  </div>
+                  {iAmHost ? (
+                    <button className="miniBtnB" onClick={startGame} title="Deal the first card">
+                      ▶ START GAME
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
+              {state.kingsCup ? (
+                <div className="miniActionsB">
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    🏆 KING&apos;S CUP · {nameOf(state.kingsCup.drinker)} drinks it!
+                  </div>
+                </div>
+              ) : null}
+              {state.phase === "finished" ? (
+                <div className="miniActionsB">
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    🏁 GAME OVER · {state.kingsCup ? "fourth king" : "deck empty"}
+                  </div>
+                  {iAmHost ? (
+                    <>
+                      <button className="miniBtnB" onClick={continueGame} title="Fresh deck, same stats">
+                        🔀 RESHUFFLE &amp; CONTINUE
+                      </button>
+                      <button className="miniBtnB" onClick={newGame} title="Back to the lobby">
+                        NEW GAME
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
+
               {/* ACE WATERFALL PANEL (only when Ace is drawn) */}
               {wf ? (
                 <div className="miniActionsB">
@@ -1408,6 +1850,9 @@ export default function Page() {
                     WATERFALL · {wf.direction.toUpperCase()} · {wf.durationSec}s (random)
                     {wf.phase === "active" && typeof wfCountdown === "number" ? ` · ${wfCountdown}s left` : ""}
                   </div>
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    {wf.order.map((id) => nameOf(id)).join(" → ")}
+                  </div>
                   <button
                     className="miniBtnB"
                     onClick={startWaterfall}
@@ -1419,6 +1864,97 @@ export default function Page() {
                 </div>
               ) : null}
 
+              {/* GO-AROUND ROUND (Rhyme / Categories) */}
+              {state.goRound ? (
+                <div className="miniActionsB">
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    🔁 {state.goRound.label.toUpperCase()}
+                    {state.goRound.word ? ` · "${state.goRound.word}"` : ` · ${nameOf(state.goRound.drawer)} sets it`}
+                    {state.goRound.phase !== "pending" ? ` · ${state.goRound.passes} passed` : ""}
+                    {typeof roundLeft === "number" ? ` · ${roundLeft}s` : ""}
+                    {state.goRound.phase === "done"
+                      ? state.goRound.loser
+                        ? ` · Loser: ${nameOf(state.goRound.loser)}`
+                        : " · no loser"
+                      : ""}
+                  </div>
+                  {state.goRound.phase === "active" ? (
+                    <div className="miniBtnB" style={{ cursor: "default" }}>
+                      {state.goRound.order.map((id, i) => (
+                        <span key={id} style={{ opacity: i === state.goRound!.index ? 1 : 0.5 }}>
+                          {i ? " → " : ""}
+                          {i === state.goRound!.index ? <b>{nameOf(id)}</b> : nameOf(id)}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                  {state.goRound.phase === "pending" && (state.goRound.drawer === me.current || iAmHost) ? (
+                    <>
+                      <input
+                        className="miniBtnB"
+                        value={roundWord}
+                        maxLength={60}
+                        onChange={(e) => setRoundWord(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") startRound();
+                        }}
+                        placeholder={state.goRound.label === "Rhyme" ? "word to rhyme with" : "category"}
+                      />
+                      <button className="miniBtnB" onClick={startRound} disabled={!roundWord.trim()}>
+                        START
+                      </button>
+                    </>
+                  ) : null}
+                  {state.goRound.phase === "active" &&
+                  (state.goRound.order[state.goRound.index] === me.current || iAmHost) ? (
+                    <>
+                      <button className="miniBtnB" onClick={() => markRound(true)} title="Good answer: next player">
+                        ✓ PASS
+                      </button>
+                      <button className="miniBtnB" onClick={() => markRound(false)} title="Missed: round over">
+                        ✗ FAIL
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
+
+              {/* TARGET / MATE PICK */}
+              {state.targetPick ? (
+                <div className="miniActionsB">
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    🎯 {state.rules.ranks[state.targetPick.rank]?.label || state.targetPick.rank} ·{" "}
+                    {state.targetPick.target
+                      ? `${nameOf(state.targetPick.drawer)} picked ${nameOf(state.targetPick.target)}`
+                      : `${nameOf(state.targetPick.drawer)} picks`}
+                  </div>
+                  {state.targetPick.target ? null : (
+                    <button
+                      className="miniBtnB"
+                      onClick={() => setTargetOpen(true)}
+                      disabled={state.targetPick.drawer !== me.current && !iAmHost}
+                      title="Only the drawer (or the host) picks"
+                    >
+                      PICK
+                    </button>
+                  )}
+                </div>
+              ) : null}
+
+              {/* MATES (linked drinking) */}
+              {state.mates.length ? (
+                <div className="miniActionsB">
+                  <div className="miniBtnB" style={{ cursor: "default" }}>
+                    🤝 {state.mates.map(([a, b]) => `${nameOf(a)} + ${nameOf(b)}`).join(", ")}
+                  </div>
+                  {iAmHost ? (
+                    <button className="miniBtnB" onClick={clearMates} title="Unlink everyone">
+                      CLEAR MATES
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
+
               {/* POWER STRIP (Heaven + Thumb) */}
               {showPowerStrip ? (
                 <div className="powerStripB">
@@ -1436,9 +1972,9 @@ export default function Page() {
                       <div className="pwrText">
                         <div className="pwrTop">HEAVEN</div>
                         <div className="pwrSub">
-                          Holder: {state.heavenHolder || "—"}
+                          Holder: {nameOf(state.heavenHolder)}
                           {pr?.kind === "heaven" && pr.active ? ` · ${pr.tapped.length}/${pr.eligible.length}` : ""}
-                          {pr?.kind === "heaven" && !pr.active && pr.loser ? ` · Loser: ${pr.loser}` : ""}
+                          {pr?.kind === "heaven" && !pr.active && pr.loser ? ` · Loser: ${nameOf(pr.loser)}` : ""}
                         </div>
                       </div>
                     </div>
@@ -1461,9 +1997,9 @@ export default function Page() {
                       <div className="pwrText">
                         <div className="pwrTop">THUMB</div>
                         <div className="pwrSub">
-                          Holder: {state.thumbHolder || "—"}
+                          Holder: {nameOf(state.thumbHolder)}
                           {pr?.kind === "thumb" && pr.active ? ` · ${pr.tapped.length}/${pr.eligible.length}` : ""}
-                          {pr?.kind === "thumb" && !pr.active && pr.loser ? ` · Loser: ${pr.loser}` : ""}
+                          {pr?.kind === "thumb" && !pr.active && pr.loser ? ` · Loser: ${nameOf(pr.loser)}` : ""}
                         </div>
                       </div>
                     </div>
@@ -1495,16 +2031,80 @@ export default function Page() {
                 </button>
                 {state.qmHolder ? (
                   <div className="miniBtnB" style={{ cursor: "default" }}>
-                    QM Holder: <b style={{ marginLeft: 6 }}>{state.qmHolder}</b>
+                    QM Holder: <b style={{ marginLeft: 6 }}>{nameOf(state.qmHolder)}</b>
                   </div>
                 ) : null}
                 {state.kingHolder ? (
                   <div className="miniBtnB" style={{ cursor: "default" }}>
-                    King Holder: <b style={{ marginLeft: 6 }}>{state.kingHolder}</b>
+                    King Holder: <b style={{ marginLeft: 6 }}>{nameOf(state.kingHolder)}</b>
                   </div>
                 ) : null}
+                {rejected.length ? (
+                  <button className="miniBtnB" onClick={() => setDebugOpen((v) => !v)} title="Rejected messages">
+                    🐞 {rejected.length}
+                    {dropped ? ` · ${dropped} dropped` : ""}
+                  </button>
+                ) : null}
               </div>
 
+              {/* DEBUG: REJECTED MESSAGES */}
+              {debugOpen && rejected.length ? (
+                <div className="rulesMiniB">
+                  <div className="rulesMiniHeadB">
+                    <div className="rulesMiniTitleB">REJECTED MESSAGES</div>
+                    <button className="rulesMiniXBtnB" onClick={() => setRejected([])} title="Clear">
+                      ×
+                    </button>
+                  </div>
+                  <div className="rulesMiniListB">
+                    {rejected.slice(0, 10).map((r, i) => (
+                      <div key={`${r.at}_${i}`} className="rulesMiniRowB">
+                        <div style={{ minWidth: 0 }}>
+                          <div className="rulesMiniTextB">{r.reason}</div>
+                          <div className="rulesMiniMetaB">
+                            {r.type} · from {r.from || "?"} · {new Date(r.at).toLocaleTimeString()}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              {/* PENDING DRINKS (card prompts) */}
+              {state.prompts.length ? (
+                <div className="rulesMiniB">
+                  <div className="rulesMiniHeadB">
+                    <div className="rulesMiniTitleB">PENDING DRINKS</div>
+                    <div className="rulesMiniTitleB" style={{ opacity: 0.7 }}>
+                      {state.prompts.length}
+                    </div>
+                  </div>
+                  <div className="rulesMiniListB">
+                    {state.prompts.slice(0, 12).map((p) => (
+                      <div key={p.id} className="rulesMiniRowB">
+                        <div style={{ minWidth: 0 }}>
+                          <div className="rulesMiniTextB">
+                            🍺 {p.who === me.current ? "You" : nameOf(p.who)}
+                          </div>
+                          <div className="rulesMiniMetaB">{p.reason}</div>
+                        </div>
+                        {p.who === me.current || iAmHost ? (
+                          <button className="rulesMiniXBtnB" onClick={() => resolvePrompt(p.id, true)} title="Drank it">
+                            ✓
+                          </button>
+                        ) : null}
+                        {iAmHost ? (
+                          <button className="rulesMiniXBtnB" onClick={() => resolvePrompt(p.id, false)} title="Drop it">
+                            ×
+                          </button>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
               {/* KING RULES LIST */}
               {state.kingRules && state.kingRules.length ? (
                 <div className="rulesMiniB">
@@ -1521,7 +2121,7 @@ export default function Page() {
                         <div key={r.id} className="rulesMiniRowB">
                           <div style={{ minWidth: 0 }}>
                             <div className="rulesMiniTextB">{r.text}</div>
-                            <div className="rulesMiniMetaB">by {r.by}</div>
+                            <div className="rulesMiniMetaB">by {nameOf(r.by)}</div>
                           </div>
                           {canRemove ? (
                             <button className="rulesMiniXBtnB" onClick={() => kingRemoveRule(r.id)} title="Remove rule">
@@ -1542,30 +2142,93 @@ export default function Page() {
                   <div className="labelMiniB">Your drinks</div>
                   <div className="drinkNumB">{state.players[me.current]?.drinks ?? 0}</div>
                 </div>
-                <div className="btnGroupB">
-                  <button className="btnB btnTinyB" onClick={() => changeDrink(-1)}>
-                    -1
-                  </button>
-                  <button className="btnB btnPrimaryB btnTinyB" onClick={() => changeDrink(1)}>
-                    +1
-                  </button>
-                </div>
+                <button className="btnB btnTinyB" onClick={() => setLedgerOpen(true)} title="Who drank what, and why">
+                  📒 {state.drinkLog.filter((d) => !d.undoneBy).length}
+                </button>
+                <button className="btnB btnTinyB" onClick={() => setTimelineOpen(true)} title="Everything that happened">
+                  🕑
+                </button>
+                {watchOnly.current || !state.players[me.current] ? null : (
+                  <select
+                    value={myGroup}
+                    onChange={(e) => changeGroup(e.target.value)}
+                    title="Your group, for group cards"
+                  >
+                    <option value="">No group</option>
+                    {groupOptions.map((g) => (
+                      <option key={g} value={g}>
+                        {g}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {watchOnly.current ? null : (
+                  <div className="btnGroupB">
+                    <button className="btnB btnTinyB" onClick={() => changeDrink(-1)}>
+                      -1
+                    </button>
+                    <button className="btnB btnPrimaryB btnTinyB" onClick={() => changeDrink(1)}>
+                      +1
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="playersMiniListB">
-                {orderedPlayers.map((id) => {
+                {orderedPlayers.map((id, i) => {
                   const p = state.players[id];
                   if (!p) return null;
                   const badges = badgeRowForPlayer(id);
+                  const prev = orderedPlayers[i - 1];
 
+                  // host drags rows (or taps ⬆) to match who's sitting where
                   return (
-                    <div key={p.name} className="pRowB">
+                    <div
+                      key={id}
+                      className="pRowB"
+                      draggable={iAmHost}
+                      onDragStart={() => (dragSeat.current = id)}
+                      onDragOver={(e) => iAmHost && e.preventDefault()}
+                      onDrop={() => {
+                        if (dragSeat.current) moveSeat(dragSeat.current, id);
+                        dragSeat.current = null;
+                      }}
+                    >
                       <div className="pNameB">
                         {p.name} {badges ? <span className="pBadgesB"> {badges}</span> : null}
                       </div>
                       <div className="pMetaB">
-                        🍺 {p.drinks} · 🃏 {p.cardsDrawn} · ❓ {p.qmCaught} · ⚡ {p.powerLosses}
+                        🍺 {p.drinks} · 🃏 {p.cardsDrawn} · ❓ {p.qmCaught} · ⚡ {p.powerLosses} · 🔁 {p.roundLosses}
                       </div>
+                      {iAmHost ? (
+                        <div className="pModB">
+                          {prev ? (
+                            <button onClick={() => moveSeat(id, prev)} title="Move up a seat">
+                              ⬆
+                            </button>
+                          ) : null}
+                          {id !== me.current ? (
+                            <button onClick={() => draw(id)} disabled={deckLocked} title="Draw for them">
+                              🃏
+                            </button>
+                          ) : null}
+                          {id !== me.current ? (
+                            <button onClick={() => transferHost(id)} title="Make host">
+                              👑
+                            </button>
+                          ) : null}
+                          {tokenRef.current && id !== me.current ? (
+                            <>
+                              <button onClick={() => mutePlayer(id)} title="Mute">
+                                🔇
+                              </button>
+                              <button onClick={() => kickPlayer(id)} title="Remove from room">
+                                🚪
+                              </button>
+                            </>
+                          ) : null}
+                        </div>
+                      ) : null}
                     </div>
                   );
                 })}
@@ -1603,7 +2266,33 @@ export default function Page() {
                     }}
                     disabled={!iAmQm}
                   >
-                    {id}
+                    {nameOf(id)}
+                  </button>
+                ))}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {/* TARGET PICK MODAL */}
+      {targetOpen && state.targetPick ? (
+        <div className="overlayB" onClick={() => setTargetOpen(false)}>
+          <div className="rulesModalB" onClick={(e) => e.stopPropagation()}>
+            <div className="rulesModalTopB">
+              <div className="rulesModalTitleB">🎯 {state.rules.ranks[state.targetPick.rank]?.label || "Pick"}</div>
+              <button className="ruleXBtnB" onClick={() => setTargetOpen(false)}>
+                ×
+              </button>
+            </div>
+
+            <div className="rulesModalNoteB">{state.rules.ranks[state.targetPick.rank]?.text}</div>
+
+            <div className="rulesGridB">
+              {orderedPlayers
+                .filter((id) => id && id !== state.targetPick?.drawer)
+                .map((id) => (
+                  <button key={id} className="rulePickBtnB" onClick={() => pickTarget(id)}>
+                    {nameOf(id)}
                   </button>
                 ))}
             </div>
@@ -1611,6 +2300,135 @@ export default function Page() {
         </div>
       ) : null}
 
+      {/* HOUSE RULES MODAL (host edits, everyone reads) */}
+      {rulesOpen && rulesDraft ? (
+        <div className="overlayB" onClick={() => setRulesOpen(false)}>
+          <div className="rulesModalB" onClick={(e) => e.stopPropagation()}>
+            <div className="rulesModalTopB">
+              <div className="rulesModalTitleB">📜 House Rules</div>
+              <button className="ruleXBtnB" onClick={() => setRulesOpen(false)}>
+                ×
+              </button>
+            </div>
+
+            <div className="rulesModalNoteB">
+              {iAmHost
+                ? "Edit what each rank says and does. Changes apply from the next draw."
+                : "Only the host can change these. You can still save or share them as a preset."}
+            </div>
+
+            <div className="fieldB">
+              <div>Preset</div>
+              <select
+                value=""
+                onChange={(e) => {
+                  const picked = [CLASSIC_RULES, ...presets].find((p) => p.name === e.target.value);
+                  if (picked) setRulesDraft(clone(picked));
+                }}
+              >
+                <option value="">Load a preset…</option>
+                {[CLASSIC_RULES, ...presets].map((p, i) => (
+                  <option key={`${p.name}_${i}`} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={rulesDraft.name}
+                maxLength={MAX_LABEL}
+                onChange={(e) => setRulesDraft({ ...rulesDraft, name: e.target.value })}
+                placeholder="preset name"
+              />
+            </div>
+
+            <div className="rulesMiniListB" style={{ maxHeight: 320, overflow: "auto" }}>
+              {RANKS.map((rank) => {
+                const r = rulesDraft.ranks[rank];
+                return (
+                  <div key={rank} className="fieldB">
+                    <div>{rank}</div>
+                    <input
+                      value={r.label}
+                      maxLength={MAX_LABEL}
+                      disabled={!iAmHost}
+                      onChange={(e) => editRank(rank, { label: e.target.value })}
+                    />
+                    <select
+                      value={r.mechanic}
+                      disabled={!iAmHost}
+                      onChange={(e) => editRank(rank, { mechanic: e.target.value as Mechanic })}
+                    >
+                      {MECHANICS.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          {m.label}
+                        </option>
+                      ))}
+                    </select>
+                    {r.mechanic === "group" ? (
+                      <input
+                        value={r.group ?? ""}
+                        maxLength={MAX_GROUP}
+                        disabled={!iAmHost}
+                        onChange={(e) => editRank(rank, { group: e.target.value })}
+                        placeholder="group tag, e.g. girls"
+                      />
+                    ) : null}
+                    <input
+                      value={r.text}
+                      maxLength={MAX_TEXT}
+                      disabled={!iAmHost}
+                      onChange={(e) => editRank(rank, { text: e.target.value })}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="rowB" style={{ justifyContent: "flex-end" }}>
+              {presets.some((p) => p.name === rulesDraft.name) ? (
+                <button className="btnB" onClick={() => setPresets(deletePreset(rulesDraft.name))}>
+                  Delete preset
+                </button>
+              ) : null}
+              <button className="btnB" onClick={saveRulesPreset} disabled={!rulesDraft.name.trim()}>
+                Save preset
+              </button>
+              <button className="btnB" onClick={copyRulesJson}>
+                Copy JSON
+              </button>
+              <button
+                className="btnB"
+                onClick={() =>
+                  downloadText(`${rulesDraft.name || "rules"}.json`, presetToJson(rulesDraft), "application/json")
+                }
+              >
+                ⬇ JSON
+              </button>
+              {iAmHost ? (
+                <button className="btnB btnPrimaryB" onClick={applyRules}>
+                  Use at this table
+                </button>
+              ) : null}
+            </div>
+
+            <div className="fieldB">
+              <div>Import</div>
+              <textarea
+                value={presetJson}
+                onChange={(e) => setPresetJson(e.target.value)}
+                placeholder="paste a shared preset's JSON"
+                rows={3}
+              />
+            </div>
+            <div className="rowB" style={{ justifyContent: "flex-end" }}>
+              <button className="btnB" onClick={importRulesJson} disabled={!presetJson.trim()}>
+                Load
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
       {/* KING ADD RULE MODAL */}
       {kingOpen ? (
         <div className="overlayB" onClick={() => setKingOpen(false)}>
@@ -1642,6 +2460,185 @@ export default function Page() {
         </div>
       ) : null}
 
+      {/* DRINK LEDGER MODAL */}
+      {ledgerOpen ? (
+        <div className="overlayB" onClick={() => setLedgerOpen(false)}>
+          <div className="rulesModalB" onClick={(e) => e.stopPropagation()}>
+            <div className="rulesModalTopB">
+              <div className="rulesModalTitleB">📒 Drink Ledger</div>
+              <button className="ruleXBtnB" onClick={() => setLedgerOpen(false)}>
+                ×
+              </button>
+            </div>
+
+            <div className="rulesModalNoteB">
+              Totals come from these entries. The host (or whoever logged one) can undo a mistake.
+            </div>
+
+            {iAmHost ? (
+              <>
+                <div className="fieldB">
+                  <div>Assign a drink</div>
+                  <select value={ledgerWho} onChange={(e) => setLedgerWho(e.target.value)}>
+                    <option value="">Pick a player…</option>
+                    {orderedPlayers.map((id) => (
+                      <option key={id} value={id}>
+                        {nameOf(id)}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={ledgerReason}
+                    onChange={(e) => setLedgerReason(e.target.value)}
+                    placeholder="reason, e.g. broke a King rule"
+                  />
+                </div>
+                <div className="rowB" style={{ justifyContent: "flex-end" }}>
+                  <button
+                    className="btnB btnPrimaryB"
+                    disabled={!ledgerWho}
+                    onClick={() => {
+                      changeDrink(1, ledgerWho, ledgerReason);
+                      setLedgerReason("");
+                    }}
+                  >
+                    +1
+                  </button>
+                </div>
+              </>
+            ) : null}
+
+            <div className="rulesMiniListB" style={{ maxHeight: 320, overflow: "auto" }}>
+              {state.drinkLog.length ? null : <div className="noteB">No drinks logged yet.</div>}
+              {[...state.drinkLog]
+                .reverse()
+                .slice(0, 100)
+                .map((d) => {
+                  const canUndo = !d.undoneBy && (iAmHost || d.by === me.current);
+                  return (
+                    <div key={d.id} className="rulesMiniRowB" style={d.undoneBy ? { opacity: 0.5 } : undefined}>
+                      <div style={{ minWidth: 0 }}>
+                        <div
+                          className="rulesMiniTextB"
+                          style={d.undoneBy ? { textDecoration: "line-through" } : undefined}
+                        >
+                          {d.delta > 0 ? `+${d.delta}` : d.delta} {nameOf(d.who)} · {d.reason}
+                        </div>
+                        <div className="rulesMiniMetaB">
+                          by {nameOf(d.by)}
+                          {d.at ? ` · ${new Date(d.at).toLocaleTimeString()}` : ""}
+                          {d.undoneBy ? ` · undone by ${nameOf(d.undoneBy)}` : ""}
+                        </div>
+                      </div>
+                      {canUndo ? (
+                        <button className="rulesMiniXBtnB" onClick={() => undoDrink(d.id)} title="Undo">
+                          ↶
+                        </button>
+                      ) : null}
+                    </div>
+                  );
+                })}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {/* TIMELINE MODAL */}
+      {timelineOpen ? (
+        <div className="overlayB" onClick={() => setTimelineOpen(false)}>
+          <div className="rulesModalB" onClick={(e) => e.stopPropagation()}>
+            <div className="rulesModalTopB">
+              <div className="rulesModalTitleB">🕑 Timeline</div>
+              <button className="ruleXBtnB" onClick={() => setTimelineOpen(false)}>
+                ×
+              </button>
+            </div>
+
+            <div className="rowB" style={{ justifyContent: "flex-end" }}>
+              <button className="btnB btnTinyB" disabled={!history.events.length} onClick={() => exportSession("json")}>
+                ⬇ JSON
+              </button>
+              <button className="btnB btnTinyB" disabled={!history.events.length} onClick={() => exportSession("csv")}>
+                ⬇ CSV
+              </button>
+            </div>
+
+            <div className="rulesMiniListB" style={{ maxHeight: 360, overflow: "auto" }}>
+              {history.events.length ? null : <div className="noteB">Nothing has happened yet.</div>}
+              {[...history.events]
+                .reverse()
+                .slice(0, 200)
+                .map((e) => (
+                  <div key={e.seq} className="rulesMiniRowB">
+                    <div style={{ minWidth: 0 }}>
+                      <div className="rulesMiniTextB">{describeEvent(e, nameOf)}</div>
+                      <div className="rulesMiniMetaB">
+                        #{e.seq} · {new Date(e.at).toLocaleTimeString()}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {/* ROOM ACCESS MODAL (host) */}
+      {accessOpen ? (
+        <div className="overlayB" onClick={() => setAccessOpen(false)}>
+          <div className="rulesModalB" onClick={(e) => e.stopPropagation()}>
+            <div className="rulesModalTopB">
+              <div className="rulesModalTitleB">🔑 Room Access</div>
+              <button className="ruleXBtnB" onClick={() => setAccessOpen(false)}>
+                ×
+              </button>
+            </div>
+
+            <div className="rulesModalNoteB">
+              With a password set, new joiners need it or an invite link. People already in stay in.
+            </div>
+
+            <div className="fieldB">
+              <div>Password</div>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="new room password"
+              />
+            </div>
+
+            <div className="rowB" style={{ justifyContent: "flex-end" }}>
+              <button className="btnB" onClick={() => saveRoomPassword(null)}>
+                Remove
+              </button>
+              <button className="btnB btnPrimaryB" onClick={() => saveRoomPassword(newPassword)} disabled={!newPassword}>
+                Set
+              </button>
+            </div>
+
+            <div className="rowB" style={{ justifyContent: "flex-end" }}>
+              <button className="btnB" onClick={() => setRoomLocked(!access?.locked)}>
+                {access?.locked ? "🔓 Unlock room" : "🔒 Lock room"}
+              </button>
+              <button className="btnB" onClick={() => makeInvite(60)}>
+                Invite (1h)
+              </button>
+              <button className="btnB" onClick={() => makeInvite(24 * 60)}>
+                Invite (24h)
+              </button>
+            </div>
+
+            {inviteLink ? (
+              <div className="fieldB">
+                <div>Invite link</div>
+                <input readOnly value={inviteLink} onFocus={(e) => e.target.select()} />
+              </div>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
       <AttachLocalOnConnect connected={connected} me={me} roomRef={roomRef} attachLocalTracks={attachLocalTracks} />
     </div>
   );
@@ -0,0 +1,47 @@
+/* lib/client/identity.ts */
+
+/* =========================
+   TYPES
+========================= */
+
+// What /api/token issued this device; the claim lets it ask for the same identity next time.
+export type DeviceIdentity = { identity: string; claim: string };
+
+const KEY = "kad-kings:identity";
+const TAB_KEY = "kad-kings:tab";
+
+/* =========================
+   STORAGE
+========================= */
+
+export function loadIdentity(): DeviceIdentity | null {
+  try {
+    const s = JSON.parse(window.localStorage.getItem(KEY) || "null") as DeviceIdentity | null;
+    return s?.identity && s?.claim ? s : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveIdentity(id: DeviceIdentity) {
+  try {
+    window.localStorage.setItem(KEY, JSON.stringify(id));
+  } catch {
+    // a fresh identity next time is fine
+  }
+}
+
+// Local tabs share localStorage, so each tab keeps its own id (survives a refresh of that tab).
+export function tabIdentity(): string {
+  const fresh = () => `t_${Math.random().toString(36).slice(2, 10)}`;
+  try {
+    const ss = window.sessionStorage;
+    const have = ss.getItem(TAB_KEY);
+    if (have) return have;
+    const id = fresh();
+    ss.setItem(TAB_KEY, id);
+    return id;
+  } catch {
+    return fresh();
+  }
+}
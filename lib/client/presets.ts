@@ -0,0 +1,59 @@
+/* lib/client/presets.ts */
+
+import { sanitizeRules } from "../game/rules";
+import type { RuleSet } from "../game/types";
+
+const KEY = "kad-kings:presets";
+
+/* =========================
+   STORAGE
+========================= */
+
+// House-rule presets saved on this device, by name.
+export function loadPresets(): RuleSet[] {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.map(sanitizeRules).filter((r): r is RuleSet => !!r);
+  } catch {
+    return [];
+  }
+}
+
+function store(presets: RuleSet[]) {
+  try {
+    window.localStorage.setItem(KEY, JSON.stringify(presets));
+  } catch {
+    // quota / blocked storage: the preset lives on in the game itself
+  }
+}
+
+// Same name replaces the older one.
+export function savePreset(rules: RuleSet): RuleSet[] {
+  const next = [...loadPresets().filter((p) => p.name !== rules.name), rules];
+  store(next);
+  return next;
+}
+
+export function deletePreset(name: string): RuleSet[] {
+  const next = loadPresets().filter((p) => p.name !== name);
+  store(next);
+  return next;
+}
+
+/* =========================
+   SHARING
+========================= */
+
+export function presetToJson(rules: RuleSet): string {
+  return JSON.stringify(rules, null, 2);
+}
+
+// Pasted or downloaded JSON back into a rule set; null when it isn't one.
+export function presetFromJson(text: string): RuleSet | null {
+  try {
+    return sanitizeRules(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
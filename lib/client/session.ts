@@ -0,0 +1,74 @@
+/* lib/client/session.ts */
+
+import type { GameState } from "../game/types";
+
+/* =========================
+   TYPES
+========================= */
+
+// What a tab needs to pick a game back up after a refresh, per room.
+export type SavedSession = {
+  room: string;
+  identity: string;
+  name: string;
+  localMode: boolean;
+  serverMode: boolean;
+  state: GameState; // the host's copy includes the private deck
+  savedAt: number;
+};
+
+const PREFIX = "kad-kings:session:";
+const LAST_KEY = "kad-kings:last";
+const MAX_AGE_MS = 6 * 60 * 60 * 1000; // matches the token ttl
+
+/* =========================
+   STORAGE
+========================= */
+
+function storage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null; // private mode / blocked storage
+  }
+}
+
+export function saveSession(s: SavedSession) {
+  const ls = storage();
+  if (!ls) return;
+  try {
+    ls.setItem(PREFIX + s.room, JSON.stringify(s));
+    ls.setItem(LAST_KEY, JSON.stringify({ room: s.room, name: s.name }));
+  } catch {
+    // quota: resuming is best-effort
+  }
+}
+
+export function loadSession(room: string): SavedSession | null {
+  const ls = storage();
+  if (!ls) return null;
+  try {
+    const raw = ls.getItem(PREFIX + room);
+    if (!raw) return null;
+    const s = JSON.parse(raw) as SavedSession;
+    if (!s?.state || Date.now() - s.savedAt > MAX_AGE_MS) return null;
+    return s;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSession(room: string) {
+  storage()?.removeItem(PREFIX + room);
+}
+
+// Prefill for the join card.
+export function lastJoin(): { room: string; name: string } | null {
+  const ls = storage();
+  if (!ls) return null;
+  try {
+    return JSON.parse(ls.getItem(LAST_KEY) || "null");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+/* lib/game/authority.test.ts */
+
+import { describe, expect, it } from "vitest";
+
+import { checkRequest, checkState, electHost, type Presence } from "./authority";
+import { emptyState, reduce } from "./engine";
+import { stamp } from "./sync";
+import type { EngineCtx, GameState, Msg } from "./types";
+
+/* =========================
+   HELPERS
+========================= */
+
+let n = 0;
+const ctx: EngineCtx = { random: () => (++n % 97) / 97, now: () => 1_000, seed: () => "seed" };
+
+// Joined in the order given.
+function room(...ids: string[]): Presence {
+  return {
+    list: () => [...ids],
+    has: (id) => ids.includes(id),
+    joinedAt: (id) => (ids.includes(id) ? ids.indexOf(id) * 1000 : null),
+  };
+}
+
+// What the host broadcasts: every applied message stamped with the next rev.
+function hosted(...msgs: Msg[]): GameState {
+  return msgs.reduce((gs, m) => stamp(gs, reduce(gs, m, ctx)), emptyState());
+}
+
+/* =========================
+   STATE
+========================= */
+
+describe("checkState", () => {
+  const game = hosted(
+    { type: "HOST_CLAIM", by: "a" },
+    { type: "PLAYER_JOIN", id: "b" },
+    { type: "PLAYER_JOIN", id: "c" },
+    { type: "GAME_START", requestedBy: "a" }
+  );
+
+  it("needs a sender", () => {
+    expect(checkState(game, game, null, room("a", "b", "c"))).toBe("Unknown sender.");
+  });
+
+  it("takes anything from the current host, including a hand-over", () => {
+    const moved = { ...game, host: "c", rev: game.rev + 1 };
+    expect(checkState(game, moved, "a", room("a", "b", "c"))).toBeNull();
+  });
+
+  it("refuses a guest speaking for someone else", () => {
+    expect(checkState(game, { ...game, host: "a" }, "b", room("a", "b", "c"))).toMatch(/host is a/);
+  });
+
+  it("lets anyone claim while the host is missing", () => {
+    const claim = { ...game, host: "b", rev: game.rev + 1 };
+    expect(checkState(game, claim, "b", room("b", "c"))).toBeNull();
+    expect(checkState(emptyState(), claim, "b", room("b", "c"))).toBeNull();
+  });
+
+  it("never lets an earlier joiner take over a running game", () => {
+    // a handed the game to c; b joined before c but is just a guest
+    const transferred = stamp(game, reduce(game, { type: "HOST_TRANSFER", requestedBy: "a", to: "c" }, ctx));
+    const forged = { ...transferred, host: "b", rev: transferred.rev + 1, drinkLog: [] };
+    expect(checkState(transferred, forged, "b", room("a", "b", "c"))).toMatch(/claimed host/);
+
+    const fresh = { ...hosted({ type: "HOST_CLAIM", by: "b" }), gameId: "other" };
+    expect(checkState(transferred, fresh, "b", room("a", "b", "c"))).toMatch(/claimed host/);
+  });
+
+  it("settles two fresh claims in favour of the earliest joiner", () => {
+    // x joined later and claimed before a's answer arrived
+    const mine = hosted({ type: "HOST_CLAIM", by: "x" });
+    expect(checkState(mine, game, "a", room("a", "x"))).toBeNull();
+
+    const theirs = hosted({ type: "HOST_CLAIM", by: "a" });
+    const late = { ...mine, gameId: "late" };
+    expect(checkState(theirs, late, "x", room("a", "x"))).toMatch(/claimed host/);
+  });
+});
+
+/* =========================
+   REQUESTS & ELECTION
+========================= */
+
+describe("checkRequest", () => {
+  it("only lets guests ask in their own name", () => {
+    expect(checkRequest({ type: "DRAW", requestedBy: "b" }, "b")).toBeNull();
+    expect(checkRequest({ type: "DRAW", requestedBy: "a" }, "b")).toMatch(/as a/);
+    expect(checkRequest({ type: "POWER_TAP", kind: "heaven", by: "c" }, "b")).toMatch(/as c/);
+    expect(checkRequest({ type: "WATERFALL_TICK" }, null)).toBe("Unknown sender.");
+  });
+});
+
+describe("electHost", () => {
+  it("picks the earliest joiner, or nobody in an empty room", () => {
+    expect(electHost(room("b", "a", "c"))).toBe("b");
+    expect(electHost(room())).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/* lib/game/authority.ts */
+
+import type { GameState, Msg } from "./types";
+
+/* =========================
+   TYPES
+========================= */
+
+// What the room currently looks like from this client (transport-agnostic).
+export type Presence = {
+  list: () => string[]; // everyone connected, including this client
+  has: (id: string) => boolean;
+  joinedAt: (id: string) => number | null; // epoch ms, null if unknown
+};
+
+export type Rejection = {
+  at: number;
+  from: string | null;
+  type: string;
+  reason: string;
+};
+
+/* =========================
+   CHECKS
+========================= */
+
+// Requests a guest may ask the host (or the server) to run through the engine.
+export const GUEST_REQUESTS: Msg["type"][] = [
+  "DRAW",
+  "POWER_START",
+  "POWER_TAP",
+  "POWER_CLEAR",
+  "WATERFALL_START",
+  "ROUND_START",
+  "ROUND_MARK",
+  "QM_CAUGHT",
+  "KING_ADD_RULE",
+  "KING_REMOVE_RULE",
+  "TARGET_PICK",
+  "DRINK_ADD",
+  "DRINK_UNDO",
+  "GROUP_SET",
+  "PROMPT_RESOLVE",
+];
+
+// Host election window: nobody holds host yet, or the holder is no longer in the room.
+export function isElectionOpen(gs: GameState, presence: Presence): boolean {
+  return !gs.host || !presence.has(gs.host);
+}
+
+function outranks(presence: Presence, a: string, b: string): boolean {
+  const ja = presence.joinedAt(a);
+  const jb = presence.joinedAt(b);
+  if (ja === null || jb === null) return false;
+  if (ja !== jb) return ja < jb;
+  return a.localeCompare(b) < 0;
+}
+
+// Deterministic: every client computes the same winner from the same room (earliest joiner).
+export function electHost(presence: Presence): string | null {
+  const ids = presence.list().filter(Boolean);
+  if (!ids.length) return null;
+
+  const rank = (id: string) => presence.joinedAt(id) ?? Number.MAX_SAFE_INTEGER;
+  const sorted = [...ids].sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+  return sorted[0];
+}
+
+// Returns a rejection reason, or null when the STATE may be applied.
+export function checkState(
+  gs: GameState,
+  incoming: GameState,
+  sender: string | null,
+  presence: Presence
+): string | null {
+  if (!sender) return "Unknown sender.";
+  if (gs.host && sender === gs.host) return null;
+
+  // anyone but the host may only broadcast their own claim
+  if (incoming.host !== sender) return `STATE from ${sender}, host is ${gs.host || "—"}.`;
+
+  if (isElectionOpen(gs, presence)) return null;
+
+  // two hosts (a late joiner claimed before hearing from us): the earliest joiner wins, but only over a
+  // claim that has just been made; a running game is never handed to a guest who merely joined earlier
+  const freshClaim = gs.rev <= 1 && incoming.gameId !== gs.gameId;
+  if (gs.host && freshClaim && outranks(presence, sender, gs.host)) return null;
+
+  return `${sender} claimed host while ${gs.host} holds it.`;
+}
+
+function requesterOf(msg: Msg): string | null {
+  if ("requestedBy" in msg) return msg.requestedBy ?? null;
+  if ("by" in msg) return msg.by;
+  return null;
+}
+
+// Guests can only make requests in their own name.
+export function checkRequest(msg: Msg, sender: string | null): string | null {
+  if (!sender) return "Unknown sender.";
+  const claimed = requesterOf(msg);
+  if (claimed && claimed !== sender) return `${sender} sent a request as ${claimed}.`;
+  return null;
+}
@@ -0,0 +1,30 @@
+/* lib/game/cards.ts */
+
+export const SUITS = ["♠", "♥", "♦", "♣"];
+export const RANKS = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
+
+export function buildDeck() {
+  const d: string[] = [];
+  for (const r of RANKS) for (const s of SUITS) d.push(`${r}${s}`);
+  return d;
+}
+
+export function shuffle<T>(arr: T[], random: () => number = Math.random): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+export function parseCard(card: string | null): { rank: string; suit: string } {
+  if (!card) return { rank: "—", suit: "" };
+  const suit = card.slice(-1);
+  const rank = card.slice(0, -1);
+  return { rank, suit };
+}
+
+export function isRedSuit(suit: string) {
+  return suit === "♥" || suit === "♦";
+}
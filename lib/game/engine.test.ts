@@ -0,0 +1,617 @@
+/* lib/game/engine.test.ts */
+
+import { describe, expect, it } from "vitest";
+
+import { WIRE_EVENTS, emptyState, matesOf, reduce, toPublic } from "./engine";
+import { verifyShuffle } from "./fair";
+import { CLASSIC_RULES } from "./rules";
+import type { EngineCtx, GameState, Msg } from "./types";
+
+/* =========================
+   HELPERS
+========================= */
+
+const T0 = 1_700_000_000_000;
+
+// Same game every run: seeded LCG for random, a clock tests move by hand, numbered shuffle seeds.
+function fixedCtx() {
+  let x = 42;
+  let seeds = 0;
+  const clock = { t: T0 };
+  const ctx: EngineCtx = {
+    random: () => (x = (x * 16807) % 2147483647) / 2147483647,
+    now: () => clock.t,
+    seed: () => `seed-${++seeds}`,
+  };
+  return { ctx, clock };
+}
+
+function run(gs: GameState, ctx: EngineCtx, ...msgs: Msg[]): GameState {
+  return msgs.reduce((s, m) => reduce(s, m, ctx), gs);
+}
+
+// Host "a", guests "b" and "c", seated a → b → c, game started, "a" to draw.
+function table(ctx: EngineCtx): GameState {
+  return run(
+    emptyState(),
+    ctx,
+    { type: "HOST_CLAIM", by: "a", name: "Ann" },
+    { type: "PLAYER_JOIN", id: "b", name: "Bo" },
+    { type: "PLAYER_JOIN", id: "c", name: "Cy" },
+    { type: "GAME_START", requestedBy: "a" }
+  );
+}
+
+// Stack the top of the deck; a filler card underneath keeps the game from ending.
+function stack(gs: GameState, ...cards: string[]): GameState {
+  const deck = [...cards, "5♣"];
+  return { ...gs, deck, deckCount: deck.length };
+}
+
+const draw = (requestedBy: string, onBehalfOf?: string): Msg => ({ type: "DRAW", requestedBy, onBehalfOf });
+
+/* =========================
+   SEATS & HOSTING
+========================= */
+
+describe("HOST_CLAIM / PLAYER_JOIN / PLAYER_LEAVE", () => {
+  it("first claim hosts a fresh, committed deck in the lobby", () => {
+    const { ctx } = fixedCtx();
+    const gs = reduce(emptyState(), { type: "HOST_CLAIM", by: "a", name: "Ann" }, ctx);
+    expect(gs.host).toBe("a");
+    expect(gs.phase).toBe("lobby");
+    expect(gs.deck).toHaveLength(52);
+    expect(gs.shuffleCommit?.seed).toBe("seed-1");
+    expect(gs.players.a.name).toBe("Ann");
+  });
+
+  it("a second claim only seats the claimer", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(emptyState(), ctx, { type: "HOST_CLAIM", by: "a" }, { type: "HOST_CLAIM", by: "b" });
+    expect(gs.host).toBe("a");
+    expect(gs.players.b).toBeDefined();
+  });
+
+  it("a full table turns joiners away", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(table(ctx), ctx, { type: "SET_MAX_PLAYERS", requestedBy: "a", max: 3 });
+    expect(reduce(gs, { type: "PLAYER_JOIN", id: "d" }, ctx)).toBe(gs);
+  });
+
+  it("leaving keeps the stats for a rejoin and passes the turn on", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "3♠"), ctx, draw("a"), { type: "PLAYER_LEAVE", id: "b" });
+    expect(gs.players.b).toBeUndefined();
+    expect(gs.turn).toBe("c");
+
+    gs = reduce(gs, { type: "PLAYER_JOIN", id: "b" }, ctx);
+    expect(gs.players.b.name).toBe("Bo");
+  });
+
+  it("the turn goes on from the leaver's seat", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "3♠", "3♥"), ctx, { type: "PLAYER_JOIN", id: "d" }, draw("a"), draw("b"));
+    expect(gs.turn).toBe("c");
+    expect(reduce(gs, { type: "PLAYER_LEAVE", id: "c" }, ctx).turn).toBe("d");
+
+    const back = run(gs, ctx, { type: "DIRECTION_REVERSE", requestedBy: "a" }, { type: "PLAYER_LEAVE", id: "c" });
+    expect(back.turn).toBe("b");
+  });
+
+  it("a drawer who leaves mid-card hands the turn to the next seat, not the one after", () => {
+    const { ctx } = fixedCtx();
+    const four = run(table(ctx), ctx, { type: "PLAYER_JOIN", id: "d" });
+    for (const card of ["A♠", "9♠"]) {
+      const gs = run(stack(four, card), ctx, draw("a"), { type: "PLAYER_LEAVE", id: "a" });
+      expect(gs.turn).toBe("b");
+      expect(gs.waterfall).toBeNull();
+      expect(gs.goRound).toBeNull();
+    }
+  });
+
+  it("a waterfall whose drawer leaves is cancelled", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "A♠"), ctx, draw("a"), { type: "PLAYER_LEAVE", id: "a" });
+    expect(gs.waterfall).toBeNull();
+    expect(gs.turn).toBe("b");
+  });
+});
+
+describe("HOST_MIGRATE / HOST_TRANSFER", () => {
+  it("a guest's copy gets a fresh shuffle of the undrawn cards and no unverifiable reveal", () => {
+    const { ctx } = fixedCtx();
+    const guest = toPublic(run(table(ctx), ctx, draw("a")));
+    const gs = reduce(guest, { type: "HOST_MIGRATE", to: "b" }, ctx);
+    expect(gs.host).toBe("b");
+    expect(gs.deck).toHaveLength(51);
+    expect(gs.deck).not.toContain(gs.drawn[0]);
+    expect(gs.revealed).toEqual([]);
+    expect(gs.shuffleCommit?.seed).toBeTruthy();
+  });
+
+  it("only the host hands over, and only to someone seated", () => {
+    const { ctx } = fixedCtx();
+    const gs = table(ctx);
+    expect(reduce(gs, { type: "HOST_TRANSFER", requestedBy: "b", to: "c" }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "HOST_TRANSFER", requestedBy: "a", to: "z" }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "HOST_TRANSFER", requestedBy: "a", to: "c" }, ctx).host).toBe("c");
+  });
+});
+
+describe("SET_MAX_PLAYERS / SEATS_SET / DIRECTION_REVERSE", () => {
+  it("clamps the table size, host only", () => {
+    const { ctx } = fixedCtx();
+    const gs = table(ctx);
+    expect(reduce(gs, { type: "SET_MAX_PLAYERS", requestedBy: "b", max: 4 }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "SET_MAX_PLAYERS", requestedBy: "a", max: 1 }, ctx).maxPlayers).toBe(2);
+  });
+
+  it("reorders seats and turn direction", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "3♠"), ctx, { type: "SEATS_SET", requestedBy: "a", seats: ["a", "c", "b", "z"] });
+    expect(gs.seats).toEqual(["a", "c", "b"]);
+    expect(run(gs, ctx, draw("a")).turn).toBe("c");
+
+    gs = run(gs, ctx, { type: "DIRECTION_REVERSE", requestedBy: "a" }, draw("a"));
+    expect(gs.turn).toBe("b");
+  });
+});
+
+/* =========================
+   DRAWS
+========================= */
+
+describe("DRAW", () => {
+  it("waits for the lobby to start", () => {
+    const { ctx } = fixedCtx();
+    const lobby = run(emptyState(), ctx, { type: "HOST_CLAIM", by: "a" });
+    expect(reduce(lobby, draw("a"), ctx)).toBe(lobby);
+  });
+
+  it("only whoever's turn it is draws, then the turn moves on", () => {
+    const { ctx } = fixedCtx();
+    const gs = stack(table(ctx), "3♠");
+    expect(reduce(gs, draw("b"), ctx)).toBe(gs);
+
+    const next = reduce(gs, draw("a"), ctx);
+    expect(next.currentCard).toBe("3♠");
+    expect(next.players.a.cardsDrawn).toBe(1);
+    expect(next.turn).toBe("b");
+  });
+
+  it("lets the host draw for someone else", () => {
+    const { ctx } = fixedCtx();
+    const gs = stack(table(ctx), "3♠");
+    expect(reduce(gs, draw("b", "c"), ctx)).toBe(gs);
+    expect(reduce(gs, draw("a", "c"), ctx).lastDrawBy).toBe("c");
+  });
+
+  it("an Ace locks the deck until its waterfall has run", () => {
+    const { ctx, clock } = fixedCtx();
+    let gs = run(stack(table(ctx), "A♠", "3♠"), ctx, draw("a"));
+    expect(gs.waterfall?.phase).toBe("pending");
+    expect(gs.turn).toBe("a");
+    expect(reduce(gs, draw("a"), ctx)).toBe(gs);
+
+    gs = reduce(gs, { type: "WATERFALL_START", requestedBy: "a" }, ctx);
+    expect(gs.waterfall?.phase).toBe("active");
+    clock.t += gs.waterfall!.durationSec * 1000;
+    gs = reduce(gs, { type: "WATERFALL_TICK" }, ctx);
+    expect(gs.waterfall).toBeNull();
+    expect(gs.turn).toBe("b");
+  });
+
+  it("the last card ends the game", () => {
+    const { ctx } = fixedCtx();
+    const gs = reduce({ ...table(ctx), deck: ["3♠"], deckCount: 1 }, draw("a"), ctx);
+    expect(gs.phase).toBe("finished");
+    expect(gs.shuffleCommit).toBeNull();
+    expect(gs.revealed).toHaveLength(1);
+  });
+
+  it("a finished game reveals a deck anyone can replay", () => {
+    const { ctx } = fixedCtx();
+    let gs = table(ctx);
+    while (gs.phase === "playing") {
+      // skip whatever the card asks for; only the deck matters here
+      gs = { ...reduce(gs, draw(gs.turn!), ctx), waterfall: null, goRound: null };
+    }
+    expect(gs.revealed).toHaveLength(1);
+    expect(verifyShuffle(gs.revealed[0])).toEqual({ ok: true });
+  });
+});
+
+/* =========================
+   LIFECYCLE & KING'S CUP
+========================= */
+
+describe("GAME_START / GAME_CONTINUE / GAME_NEW", () => {
+  it("only the host starts, only from the lobby", () => {
+    const { ctx } = fixedCtx();
+    const lobby = run(emptyState(), ctx, { type: "HOST_CLAIM", by: "a" }, { type: "PLAYER_JOIN", id: "b" });
+    expect(reduce(lobby, { type: "GAME_START", requestedBy: "b" }, ctx)).toBe(lobby);
+
+    const gs = reduce(lobby, { type: "GAME_START", requestedBy: "a" }, ctx);
+    expect(gs.phase).toBe("playing");
+    expect(reduce(gs, { type: "GAME_START", requestedBy: "a" }, ctx)).toBe(gs);
+  });
+
+  it("the fourth king is King's Cup and ends the game", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "K♠", "K♥", "K♦", "K♣"), ctx, draw("a"), draw("b"), draw("c"));
+    expect(gs.kingsDrawn).toBe(3);
+    expect(gs.phase).toBe("playing");
+
+    gs = reduce(gs, draw("a"), ctx);
+    expect(gs.kingsCup?.drinker).toBe("a");
+    expect(gs.phase).toBe("finished");
+    expect(gs.shuffleCommit).toBeNull();
+    expect(gs.revealed).toHaveLength(1);
+    expect(reduce(gs, draw("b"), ctx)).toBe(gs);
+  });
+
+  it("continuing reshuffles a full deck and resets the kings, stats carry on", () => {
+    const { ctx } = fixedCtx();
+    const done = run(stack(table(ctx), "K♠", "K♥", "K♦", "K♣"), ctx, draw("a"), draw("b"), draw("c"), draw("a"));
+    expect(reduce(done, { type: "GAME_CONTINUE", requestedBy: "b" }, ctx)).toBe(done);
+
+    const gs = reduce(done, { type: "GAME_CONTINUE", requestedBy: "a" }, ctx);
+    expect(gs.phase).toBe("playing");
+    expect(gs.deck).toHaveLength(52);
+    expect(gs.kingsDrawn).toBe(0);
+    expect(gs.kingsCup).toBeNull();
+    expect(gs.players.a.cardsDrawn).toBe(2);
+  });
+
+  it("a new game goes back to the lobby with the same table and rules", () => {
+    const { ctx } = fixedCtx();
+    const rules = { ...CLASSIC_RULES, name: "House" };
+    const played = run(
+      table(ctx),
+      ctx,
+      { type: "RULES_SET", requestedBy: "a", rules },
+      { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: 2, reason: "" }
+    );
+    const gs = reduce(played, { type: "GAME_NEW", requestedBy: "a" }, ctx);
+    expect(gs.phase).toBe("lobby");
+    expect(gs.gameId).not.toBe(played.gameId);
+    expect(gs.rules.name).toBe("House");
+    expect(Object.keys(gs.players)).toEqual(["a", "b", "c"]);
+    expect(gs.players.b.drinks).toBe(0);
+    expect(gs.drinkLog).toEqual([]);
+  });
+
+  it("a new game mid-deck reveals the abandoned deck and keeps earlier proofs", () => {
+    const { ctx } = fixedCtx();
+    const played = run(table(ctx), ctx, draw("a"));
+    const gs = reduce(played, { type: "GAME_NEW", requestedBy: "a" }, ctx);
+    expect(gs.revealed).toHaveLength(1);
+    expect(gs.revealed[0].commit).toBe(played.shuffleCommit?.commit);
+    expect(verifyShuffle(gs.revealed[0])).toEqual({ ok: true });
+    expect(gs.shuffleCommit?.commit).not.toBe(played.shuffleCommit?.commit);
+
+    const again = run(gs, ctx, { type: "GAME_START", requestedBy: "a" }, { type: "GAME_NEW", requestedBy: "a" });
+    expect(again.revealed).toHaveLength(2);
+  });
+});
+
+/* =========================
+   DRINK LEDGER
+========================= */
+
+describe("DRINK_ADD / DRINK_UNDO", () => {
+  it("players log their own drinks, the host logs anyone's", () => {
+    const { ctx } = fixedCtx();
+    const gs = table(ctx);
+    expect(reduce(gs, { type: "DRINK_ADD", requestedBy: "b", who: "c", delta: 1, reason: "" }, ctx)).toBe(gs);
+
+    const next = run(
+      gs,
+      ctx,
+      { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: 2, reason: "Thirsty" },
+      { type: "DRINK_ADD", requestedBy: "a", who: "c", delta: 1, reason: "" }
+    );
+    expect(next.players.b.drinks).toBe(2);
+    expect(next.players.c.drinks).toBe(1);
+    expect(next.drinkLog.map((e) => e.reason)).toEqual(["Thirsty", "Drink"]);
+  });
+
+  it("refuses corrections below zero and oversized entries", () => {
+    const { ctx } = fixedCtx();
+    const gs = table(ctx);
+    expect(reduce(gs, { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: -1, reason: "" }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: 11, reason: "" }, ctx)).toBe(gs);
+  });
+
+  it("the logger or the host takes an entry back, once", () => {
+    const { ctx } = fixedCtx();
+    const gs = reduce(table(ctx), { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: 3, reason: "" }, ctx);
+    const entryId = gs.drinkLog[0].id;
+    expect(reduce(gs, { type: "DRINK_UNDO", requestedBy: "c", entryId }, ctx)).toBe(gs);
+
+    const undone = reduce(gs, { type: "DRINK_UNDO", requestedBy: "a", entryId }, ctx);
+    expect(undone.players.b.drinks).toBe(0);
+    expect(undone.drinkLog[0].undoneBy).toBe("a");
+    expect(reduce(undone, { type: "DRINK_UNDO", requestedBy: "b", entryId }, ctx)).toBe(undone);
+  });
+
+  it("won't take back a drink the drinker already corrected away", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(
+      table(ctx),
+      ctx,
+      { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: 1, reason: "" },
+      { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: -1, reason: "" }
+    );
+    expect(reduce(gs, { type: "DRINK_UNDO", requestedBy: "b", entryId: gs.drinkLog[0].id }, ctx)).toBe(gs);
+
+    const fixed = reduce(gs, { type: "DRINK_UNDO", requestedBy: "b", entryId: gs.drinkLog[1].id }, ctx);
+    expect(fixed.players.b.drinks).toBe(1);
+  });
+
+  it("won't push a mate below zero either", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(
+      stack(table(ctx), "8♠"),
+      ctx,
+      draw("a"),
+      { type: "TARGET_PICK", requestedBy: "a", target: "b" },
+      { type: "DRINK_ADD", requestedBy: "a", who: "a", delta: 1, reason: "" },
+      { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: -1, reason: "" }
+    );
+    expect(gs.players.b.drinks).toBe(0);
+    expect(reduce(gs, { type: "DRINK_UNDO", requestedBy: "a", entryId: gs.drinkLog[0].id }, ctx)).toBe(gs);
+  });
+});
+
+/* =========================
+   PICKS, MATES & PROMPTS
+========================= */
+
+describe("TARGET_PICK / MATES_CLEAR", () => {
+  it("an 8 links the drawer to a mate, and drinks follow the whole chain", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "8♠", "8♥"), ctx, draw("a"));
+    expect(gs.targetPick).toMatchObject({ drawer: "a", mechanic: "mate", target: null });
+    expect(reduce(gs, { type: "TARGET_PICK", requestedBy: "a", target: "a" }, ctx)).toBe(gs);
+
+    gs = run(
+      gs,
+      ctx,
+      { type: "TARGET_PICK", requestedBy: "a", target: "b" },
+      draw("b"),
+      { type: "TARGET_PICK", requestedBy: "b", target: "c" }
+    );
+    expect(matesOf(gs, "a").sort()).toEqual(["b", "c"]);
+
+    gs = reduce(gs, { type: "DRINK_ADD", requestedBy: "c", who: "c", delta: 1, reason: "" }, ctx);
+    expect([gs.players.a.drinks, gs.players.b.drinks, gs.players.c.drinks]).toEqual([1, 1, 1]);
+
+    gs = reduce(gs, { type: "DRINK_UNDO", requestedBy: "c", entryId: gs.drinkLog[0].id }, ctx);
+    expect([gs.players.a.drinks, gs.players.b.drinks, gs.players.c.drinks]).toEqual([0, 0, 0]);
+  });
+
+  it("the host clears every mate link", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "8♠"), ctx, draw("a"), { type: "TARGET_PICK", requestedBy: "a", target: "b" });
+    expect(reduce(gs, { type: "MATES_CLEAR", requestedBy: "b" }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "MATES_CLEAR", requestedBy: "a" }, ctx).mates).toEqual([]);
+  });
+
+  it("a 2 prompts the picked target, once per draw", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "2♠"), ctx, draw("a"), { type: "TARGET_PICK", requestedBy: "a", target: "c" });
+    expect(gs.prompts.map((p) => p.who)).toEqual(["c"]);
+    expect(reduce(gs, { type: "TARGET_PICK", requestedBy: "a", target: "b" }, ctx)).toBe(gs);
+  });
+});
+
+describe("PROMPT_RESOLVE / GROUP_SET", () => {
+  it("a 3 prompts the drawer, who confirms it into the ledger", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "3♠"), ctx, draw("a"));
+    const promptId = gs.prompts[0].id;
+    expect(gs.prompts[0].who).toBe("a");
+    expect(reduce(gs, { type: "PROMPT_RESOLVE", requestedBy: "b", promptId, drink: true }, ctx)).toBe(gs);
+
+    const next = reduce(gs, { type: "PROMPT_RESOLVE", requestedBy: "a", promptId, drink: true }, ctx);
+    expect(next.prompts).toEqual([]);
+    expect(next.players.a.drinks).toBe(1);
+  });
+
+  it("only the host drops a prompt", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "3♠"), ctx, draw("a"));
+    const mine = { type: "PROMPT_RESOLVE", requestedBy: "a", promptId: gs.prompts[0].id, drink: false } as const;
+    expect(reduce(gs, { ...mine, requestedBy: "b" }, ctx)).toBe(gs);
+    expect(reduce(gs, mine, ctx).players.a.drinks).toBe(0);
+  });
+
+  it("a 6 prompts everyone; a 4 only its group", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "6♠", "4♠"), ctx, draw("a"));
+    expect(gs.prompts.map((p) => p.who)).toEqual(["a", "b", "c"]);
+
+    gs = run(
+      { ...gs, prompts: [] },
+      ctx,
+      { type: "GROUP_SET", requestedBy: "c", group: " Girls " },
+      { type: "GROUP_SET", requestedBy: "z", group: "girls" },
+      draw("b")
+    );
+    expect(gs.players.c.group).toBe("girls");
+    expect(gs.prompts.map((p) => p.who)).toEqual(["c"]);
+  });
+});
+
+/* =========================
+   HOUSE RULES
+========================= */
+
+describe("RULES_SET", () => {
+  it("host only; the new mechanic applies from the next draw", () => {
+    const { ctx } = fixedCtx();
+    const quietAce = { label: "Rest", text: "", mechanic: "none" };
+    const rules = { name: "Quiet", ranks: { ...CLASSIC_RULES.ranks, A: quietAce } };
+    const gs = stack(table(ctx), "A♠");
+    expect(reduce(gs, { type: "RULES_SET", requestedBy: "b", rules } as Msg, ctx)).toBe(gs);
+
+    const next = run(gs, ctx, { type: "RULES_SET", requestedBy: "a", rules } as Msg, draw("a"));
+    expect(next.rules.name).toBe("Quiet");
+    expect(next.waterfall).toBeNull();
+    expect(next.turn).toBe("b");
+  });
+
+  it("rejects a rule set that isn't one", () => {
+    const { ctx } = fixedCtx();
+    const gs = table(ctx);
+    expect(reduce(gs, { type: "RULES_SET", requestedBy: "a", rules: { name: "x" } } as Msg, ctx)).toBe(gs);
+  });
+});
+
+/* =========================
+   POWERS, QM & KING
+========================= */
+
+describe("POWER_START / POWER_TAP / POWER_CLEAR", () => {
+  it("the 7 holder starts Heaven; the last to tap loses", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "7♠"), ctx, draw("a"));
+    expect(reduce(gs, { type: "POWER_START", kind: "heaven", requestedBy: "b" }, ctx)).toBe(gs);
+
+    gs = run(
+      gs,
+      ctx,
+      { type: "POWER_START", kind: "heaven", requestedBy: "a" },
+      { type: "POWER_TAP", kind: "heaven", by: "a" },
+      { type: "POWER_TAP", kind: "heaven", by: "c" },
+      { type: "POWER_TAP", kind: "heaven", by: "b" }
+    );
+    expect(gs.powerRound).toMatchObject({ active: false, loser: "b" });
+    expect(gs.players.b.powerLosses).toBe(1);
+
+    expect(reduce(gs, { type: "POWER_CLEAR", requestedBy: "a" }, ctx).powerRound).toBeNull();
+  });
+});
+
+describe("QM_CAUGHT / KING_ADD_RULE / KING_REMOVE_RULE", () => {
+  it("only the Question Master tags", () => {
+    const { ctx } = fixedCtx();
+    const gs = run(stack(table(ctx), "Q♠"), ctx, draw("a"));
+    expect(reduce(gs, { type: "QM_CAUGHT", requestedBy: "b", target: "c" }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "QM_CAUGHT", requestedBy: "a", target: "c" }, ctx).players.c.qmCaught).toBe(1);
+  });
+
+  it("the King makes rules; its author or the host removes them", () => {
+    const { ctx } = fixedCtx();
+    let gs = run(stack(table(ctx), "K♠"), ctx, draw("a"));
+    expect(reduce(gs, { type: "KING_ADD_RULE", requestedBy: "b", text: "No names" }, ctx)).toBe(gs);
+
+    gs = reduce(gs, { type: "KING_ADD_RULE", requestedBy: "a", text: " No names " }, ctx);
+    const ruleId = gs.kingRules[0].id;
+    expect(gs.kingRules[0].text).toBe("No names");
+    expect(reduce(gs, { type: "KING_REMOVE_RULE", requestedBy: "b", ruleId }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "KING_REMOVE_RULE", requestedBy: "a", ruleId }, ctx).kingRules).toEqual([]);
+  });
+});
+
+/* =========================
+   GO-AROUND ROUNDS
+========================= */
+
+describe("ROUND_START / ROUND_MARK / ROUND_TICK", () => {
+  function rhyme(ctx: EngineCtx) {
+    return run(stack(table(ctx), "9♠"), ctx, draw("a"), { type: "ROUND_START", requestedBy: "a", word: "cat" });
+  }
+
+  it("the drawer sets the word and the deck stays locked", () => {
+    const { ctx } = fixedCtx();
+    const pending = run(stack(table(ctx), "9♠"), ctx, draw("a"));
+    expect(pending.goRound?.phase).toBe("pending");
+    expect(pending.turn).toBe("a");
+    expect(reduce(pending, { type: "ROUND_START", requestedBy: "b", word: "cat" }, ctx)).toBe(pending);
+
+    const gs = rhyme(ctx);
+    expect(gs.goRound).toMatchObject({ phase: "active", word: "cat", order: ["a", "b", "c"], index: 1 });
+    expect(reduce(gs, draw("a"), ctx)).toBe(gs);
+  });
+
+  it("passes move round; a fail ends it and the turn moves on", () => {
+    const { ctx } = fixedCtx();
+    let gs = rhyme(ctx);
+    expect(reduce(gs, { type: "ROUND_MARK", requestedBy: "c", ok: true }, ctx)).toBe(gs);
+
+    gs = run(
+      gs,
+      ctx,
+      { type: "ROUND_MARK", requestedBy: "b", ok: true },
+      { type: "ROUND_MARK", requestedBy: "c", ok: false }
+    );
+    expect(gs.goRound).toMatchObject({ phase: "done", passes: 1, loser: "c" });
+    expect(gs.players.c.roundLosses).toBe(1);
+    expect(gs.turn).toBe("b");
+  });
+
+  it("running out of time is a fail", () => {
+    const { ctx, clock } = fixedCtx();
+    let gs = rhyme(ctx);
+    clock.t += 9_999;
+    expect(reduce(gs, { type: "ROUND_TICK" }, ctx)).toBe(gs);
+
+    clock.t += 1;
+    gs = reduce(gs, { type: "ROUND_TICK" }, ctx);
+    expect(gs.goRound?.loser).toBe("b");
+  });
+
+  it("someone leaving only restarts the clock when they were up", () => {
+    const { ctx, clock } = fixedCtx();
+    const gs = run(table(ctx), ctx, { type: "PLAYER_JOIN", id: "d" });
+    const round = run(stack(gs, "9♠"), ctx, draw("a"), { type: "ROUND_START", requestedBy: "a", word: "cat" });
+    clock.t += 5_000;
+
+    const notUp = reduce(round, { type: "PLAYER_LEAVE", id: "c" }, ctx);
+    expect(notUp.goRound).toMatchObject({ order: ["a", "b", "d"], index: 1, turnStartedAt: T0 });
+
+    const up = reduce(round, { type: "PLAYER_LEAVE", id: "b" }, ctx);
+    expect(up.goRound).toMatchObject({ order: ["a", "c", "d"], index: 1, turnStartedAt: T0 + 5_000 });
+  });
+});
+
+/* =========================
+   WIRE
+========================= */
+
+describe("STATE / HELLO / SYNC_*", () => {
+  it("STATE adopts a snapshot, filling in what older hosts didn't send", () => {
+    const { ctx } = fixedCtx();
+    const { events, kingsDrawn, ...old } = toPublic(table(ctx));
+    const gs = reduce(emptyState(), { type: "STATE", data: old as GameState }, ctx);
+    expect(gs.host).toBe("a");
+    expect(gs.events).toEqual([]);
+    expect(gs.kingsDrawn).toBe(0);
+  });
+
+  it("handshake messages are the transport's business, not the reducer's", () => {
+    const { ctx } = fixedCtx();
+    const gs = table(ctx);
+    expect(reduce(gs, { type: "HELLO", requestedBy: "d" }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "SYNC_REQUEST", requestedBy: "b", haveRev: 0 }, ctx)).toBe(gs);
+    expect(reduce(gs, { type: "SYNC_RESPONSE", host: "a", data: null }, ctx)).toBe(gs);
+  });
+});
+
+describe("toPublic", () => {
+  it("hides the deck and seed and sends only the latest events", () => {
+    const { ctx } = fixedCtx();
+    let gs = table(ctx);
+    for (let i = 0; i < WIRE_EVENTS; i++) {
+      gs = reduce(gs, { type: "DRINK_ADD", requestedBy: "b", who: "b", delta: 1, reason: "" }, ctx);
+    }
+    const pub = toPublic(gs);
+    expect(pub.deck).toEqual([]);
+    expect(pub.deckCount).toBe(52);
+    expect(pub.shuffleCommit?.seed).toBeNull();
+    expect(pub.events).toHaveLength(WIRE_EVENTS);
+    expect(pub.events[WIRE_EVENTS - 1]).toEqual(gs.events[gs.events.length - 1]);
+  });
+});
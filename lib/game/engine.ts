@@ -0,0 +1,1059 @@
+/* lib/game/engine.ts */
+
+import { parseCard } from "./cards";
+import { deckFor, makeCommit } from "./fair";
+import { CLASSIC_RULES, cleanGroup, sanitizeRules } from "./rules";
+import type { Direction, DrinkEntry, EngineCtx, EventBody, GameState, Holder, Msg, PowerKind, RuleSet } from "./types";
+
+/* =========================
+   HELPERS
+========================= */
+
+function randomSeed(): string {
+  const bytes = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export const DEFAULT_MAX_PLAYERS = 12;
+export const MAX_PLAYERS_LIMIT = 20;
+
+export const defaultCtx: EngineCtx = {
+  random: Math.random,
+  now: Date.now,
+  seed: randomSeed,
+};
+
+export function clone<T>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj));
+}
+
+export function uid(ctx: EngineCtx, prefix = "id") {
+  return `${prefix}_${ctx.random().toString(16).slice(2)}_${ctx.now()}`;
+}
+
+export function emptyState(): GameState {
+  return {
+    gameId: null,
+    rev: 0,
+
+    host: null,
+    phase: "lobby",
+    deck: [],
+    deckCount: 0,
+    drawn: [],
+    shuffleCommit: null,
+    revealed: [],
+    currentCard: null,
+    kingsDrawn: 0,
+    kingsCup: null,
+    turn: null,
+    lastDrawBy: null,
+    players: {},
+    away: {},
+    maxPlayers: DEFAULT_MAX_PLAYERS,
+    seats: [],
+    direction: "clockwise",
+
+    heavenHolder: null,
+    thumbHolder: null,
+    qmHolder: null,
+    kingHolder: null,
+
+    powerRound: null,
+    waterfall: null,
+    goRound: null,
+    kingRules: [],
+    drinkLog: [],
+    rules: clone(CLASSIC_RULES),
+    targetPick: null,
+    mates: [],
+    prompts: [],
+    events: [],
+  };
+}
+
+// Only the tail of the event log rides along on every sync; clients merge it into their own history.
+export const WIRE_EVENTS = 100;
+
+// What goes over the wire: everything but the deck order, the unrevealed seed and old events.
+export function toPublic(gs: GameState): GameState {
+  const sc = gs.shuffleCommit;
+  return {
+    ...gs,
+    deck: [],
+    deckCount: gs.deck.length,
+    shuffleCommit: sc ? { ...sc, seed: null } : null,
+    events: gs.events.slice(-WIRE_EVENTS),
+  };
+}
+
+export function displayName(gs: GameState, id: string | null): string {
+  if (!id) return "—";
+  return gs.players[id]?.name || gs.away?.[id]?.name || id;
+}
+
+export function logEvent(gs: GameState, ctx: EngineCtx, body: EventBody) {
+  const seq = (gs.events[gs.events.length - 1]?.seq ?? 0) + 1;
+  gs.events.push({ seq, at: ctx.now(), ...body });
+}
+
+const HOLDER_KEYS: Record<Holder, "heavenHolder" | "thumbHolder" | "qmHolder" | "kingHolder"> = {
+  heaven: "heavenHolder",
+  thumb: "thumbHolder",
+  qm: "qmHolder",
+  king: "kingHolder",
+};
+
+// Logged only when the badge actually changes hands.
+function setHolder(gs: GameState, holder: Holder, to: string | null, ctx: EngineCtx) {
+  const key = HOLDER_KEYS[holder];
+  const from = gs[key];
+  if (from === to) return;
+  gs[key] = to;
+  logEvent(gs, ctx, { kind: "holder", holder, from, to });
+}
+
+// Fill any fields an older/partial snapshot is missing.
+export function normalizeState(data: Partial<GameState>): GameState {
+  const gs: GameState = {
+    gameId: data.gameId ?? null,
+    rev: typeof data.rev === "number" ? data.rev : 0,
+
+    host: data.host ?? null,
+    phase: data.phase ?? (data.host ? "playing" : "lobby"), // older snapshots were always mid-game
+    deck: data.deck ?? [],
+    deckCount: typeof data.deckCount === "number" ? data.deckCount : (data.deck ?? []).length,
+    drawn: data.drawn ?? [],
+    shuffleCommit: data.shuffleCommit ?? null,
+    revealed: data.revealed ?? [],
+    currentCard: data.currentCard ?? null,
+    kingsDrawn:
+      typeof data.kingsDrawn === "number"
+        ? data.kingsDrawn
+        : (data.drawn ?? []).filter((c) => parseCard(c).rank === "K").length,
+    kingsCup: data.kingsCup ?? null,
+    turn: data.turn ?? data.host ?? null,
+    lastDrawBy: data.lastDrawBy ?? null,
+    players: data.players ?? {},
+    away: data.away ?? {},
+    maxPlayers: typeof data.maxPlayers === "number" ? data.maxPlayers : DEFAULT_MAX_PLAYERS,
+    seats: data.seats ?? [],
+    direction: data.direction === "counterclockwise" ? "counterclockwise" : "clockwise",
+
+    heavenHolder: data.heavenHolder ?? null,
+    thumbHolder: data.thumbHolder ?? null,
+    qmHolder: data.qmHolder ?? null,
+    kingHolder: data.kingHolder ?? null,
+
+    powerRound: data.powerRound ?? null,
+    waterfall: data.waterfall ?? null,
+    goRound: data.goRound ?? null,
+    kingRules: data.kingRules ?? [],
+    drinkLog: data.drinkLog ?? [],
+    rules: (data.rules && sanitizeRules(data.rules)) || clone(CLASSIC_RULES),
+    targetPick: data.targetPick ? { ...data.targetPick, mechanic: data.targetPick.mechanic ?? "target" } : null,
+    mates: data.mates ?? [],
+    prompts: data.prompts ?? [],
+    events: data.events ?? [],
+  };
+
+  // backward-safe stats; snapshots from before seats get the old order (host first, then by name)
+  if (!data.seats) gs.seats = defaultSeats(gs);
+  for (const id of Object.keys(gs.players)) ensurePlayer(gs, id);
+  if (!data.drinkLog) gs.drinkLog = carriedDrinks(gs);
+  recountDrinks(gs);
+  if (gs.waterfall && !gs.waterfall.order) gs.waterfall.order = waterfallOrder(gs, gs.waterfall.drawer);
+  return gs;
+}
+
+export function ensurePlayer(gs: GameState, id: string, name?: string) {
+  if (!id) return;
+  if (!gs.seats.includes(id)) gs.seats.push(id);
+  if (!gs.players[id]) {
+    gs.players[id] = { name: name || id, drinks: 0, cardsDrawn: 0, qmCaught: 0, powerLosses: 0, roundLosses: 0 };
+  } else {
+    if (name) gs.players[id].name = name;
+
+    // backward-safe fill
+    if (typeof gs.players[id].qmCaught !== "number") gs.players[id].qmCaught = 0;
+    if (typeof gs.players[id].powerLosses !== "number") gs.players[id].powerLosses = 0;
+    if (typeof gs.players[id].roundLosses !== "number") gs.players[id].roundLosses = 0;
+  }
+}
+
+function defaultSeats(gs: GameState): string[] {
+  const ids = Object.keys(gs.players).filter(Boolean);
+  const host = gs.host ? [gs.host] : [];
+  const byName = (a: string, b: string) => displayName(gs, a).localeCompare(displayName(gs, b)) || a.localeCompare(b);
+  const rest = ids.filter((x) => x !== gs.host).sort(byName);
+  return Array.from(new Set([...host, ...rest]));
+}
+
+// Seated players present right now, in seat (clockwise) order.
+export function getTurnOrder(gs: GameState): string[] {
+  const seated = gs.seats.filter((id) => gs.players[id]);
+  const unseated = Object.keys(gs.players).filter((id) => id && !seated.includes(id));
+  return [...seated, ...unseated];
+}
+
+// `order` starting at `from`, going round in `direction`.
+export function rotateFrom(order: string[], from: string, direction: Direction = "clockwise"): string[] {
+  const list = direction === "clockwise" ? order : [...order].reverse();
+  const idx = list.indexOf(from);
+  return idx < 0 ? list : [...list.slice(idx), ...list.slice(0, idx)];
+}
+
+export function advanceTurn(gs: GameState): string | null {
+  const order = getTurnOrder(gs);
+  if (!order.length) return gs.host;
+
+  const cur = gs.turn;
+  if (cur && order.includes(cur)) return rotateFrom(order, cur, gs.direction)[1] || order[0];
+
+  // whoever's turn it was has left: go on from their seat (leavers keep theirs)
+  if (cur && gs.seats.includes(cur)) {
+    const round = rotateFrom([...gs.seats, ...order.filter((id) => !gs.seats.includes(id))], cur, gs.direction);
+    const next = round.find((id) => gs.players[id]);
+    if (next) return next;
+  }
+  return order[0];
+}
+
+// Seats from `drawer` round in turn direction (waterfalls, go-around rounds).
+function waterfallOrder(gs: GameState, drawer: string): string[] {
+  return rotateFrom(getTurnOrder(gs), drawer, gs.direction);
+}
+
+export function holderFor(gs: GameState, kind: PowerKind): string | null {
+  return kind === "heaven" ? gs.heavenHolder : gs.thumbHolder;
+}
+
+export function canStartPower(gs: GameState, kind: PowerKind, who: string): boolean {
+  const holder = holderFor(gs, kind);
+  if (!holder || holder !== who) return false;
+  if (gs.powerRound?.active) return false;
+  return true;
+}
+
+export function isDeckLocked(gs: GameState): boolean {
+  // only a waterfall or a go-around round in progress locks draw
+  if (gs.goRound && gs.goRound.phase !== "done") return true;
+  return !!gs.waterfall && (gs.waterfall.phase === "pending" || gs.waterfall.phase === "active");
+}
+
+// Seeded shuffle of everything not in `gone`, committed before the first draw.
+function newDeck(gs: GameState, ctx: EngineCtx, gone: string[]) {
+  const seed = ctx.seed();
+  gs.deck = deckFor(seed, gone);
+  gs.deckCount = gs.deck.length;
+  gs.shuffleCommit = makeCommit(seed, gone);
+}
+
+// Deck finished (or abandoned): publish its seed so anyone can replay it.
+// A commitment without its seed (a guest's copy) can't be checked by anyone, so it is dropped.
+function revealDeck(gs: GameState) {
+  if (!gs.shuffleCommit?.seed) {
+    gs.shuffleCommit = null;
+    return;
+  }
+  gs.revealed = [gs.shuffleCommit, ...(gs.revealed || [])].slice(0, 10);
+  gs.shuffleCommit = null;
+}
+
+function finishPowerRound(gs: GameState, ctx: EngineCtx) {
+  const pr = gs.powerRound;
+  if (!pr) return;
+
+  pr.active = false;
+  pr.loser = pr.tapped[pr.tapped.length - 1] || null;
+  logEvent(gs, ctx, { kind: "power_end", power: pr.kind, tapped: [...pr.tapped], loser: pr.loser });
+
+  // track loss (no auto drinks)
+  if (pr.loser) {
+    ensurePlayer(gs, pr.loser);
+    gs.players[pr.loser].powerLosses = (gs.players[pr.loser].powerLosses || 0) + 1;
+  }
+}
+
+/* =========================
+   RULES
+========================= */
+
+// Whose draw this would be, or null when `by` may not draw now.
+export function drawerFor(gs: GameState, by: string, onBehalfOf?: string): string | null {
+  if (!by || !gs.host || gs.phase !== "playing") return null;
+
+  // host override: draw for anyone seated, whoever's turn it is
+  if (onBehalfOf) return by === gs.host && gs.players[onBehalfOf] ? onBehalfOf : null;
+
+  if (!gs.players[by]) return null;
+  if (gs.turn && gs.players[gs.turn] && gs.turn !== by) return null;
+  return by;
+}
+
+function draw(gs: GameState, by: string, onBehalfOf: string | undefined, ctx: EngineCtx): GameState {
+  // lock only for Ace waterfall
+  if (isDeckLocked(gs)) return gs;
+
+  // the card, its holders and the waterfall belong to whoever's turn it is
+  const drawer = drawerFor(gs, by, onBehalfOf);
+  if (!drawer) return gs;
+
+  const next = clone(gs);
+  next.turn = drawer;
+
+  if (!next.deck.length) {
+    newDeck(next, ctx, []);
+    next.drawn = [];
+  }
+
+  const card = next.deck.shift() || null;
+  next.currentCard = card;
+  next.deckCount = next.deck.length;
+  if (card) {
+    next.drawn = [...(next.drawn || []), card];
+    next.shuffleCommit?.drawn.push(card);
+  }
+
+  ensurePlayer(next, drawer);
+  next.players[drawer].cardsDrawn++;
+  next.lastDrawBy = drawer;
+
+  const { rank } = parseCard(card);
+  const mechanic = next.rules.ranks[rank]?.mechanic ?? "none";
+  logEvent(next, ctx, { kind: "draw", by, drawer, card });
+
+  // the physical kings, whatever the house rules make of K
+  const kingsCup = rank === "K" && ++next.kingsDrawn === 4;
+  if (kingsCup) {
+    next.kingsCup = { drinker: drawer, at: ctx.now() };
+    logEvent(next, ctx, { kind: "kings_cup", drinker: drawer });
+  }
+
+  // fourth king or last card: the game is over unless the host reshuffles
+  if (kingsCup || !next.deck.length) {
+    revealDeck(next);
+    next.phase = "finished";
+    logEvent(next, ctx, { kind: "phase", phase: "finished", by: null });
+    if (next.mates.length) {
+      next.mates = [];
+      logEvent(next, ctx, { kind: "mates_clear", by: null });
+    }
+  }
+
+  // holders update on draw of their card
+  if (mechanic === "heaven" || mechanic === "thumb" || mechanic === "qm" || mechanic === "king") {
+    setHolder(next, mechanic, drawer, ctx);
+  }
+  next.targetPick = mechanic === "target" || mechanic === "mate" ? { drawer, rank, mechanic, target: null } : null;
+
+  // drink prompts: proposed here, they only hit the ledger once the drinker confirms
+  const rule = next.rules.ranks[rank];
+  const reason = `${card} · ${rule?.label || rank}`;
+  if (mechanic === "self") promptDrinks(next, [drawer], reason, ctx);
+  if (mechanic === "everyone") promptDrinks(next, getTurnOrder(next), reason, ctx);
+  if (mechanic === "group" && rule?.group) {
+    promptDrinks(
+      next,
+      getTurnOrder(next).filter((id) => next.players[id].group === rule.group),
+      reason,
+      ctx
+    );
+  }
+
+  // waterfall: set pending, keep turn on drawer until done
+  if (mechanic === "waterfall") {
+    const durationSec = Math.floor(5 + ctx.random() * 16); // 5..20 inclusive
+    next.waterfall = {
+      phase: "pending",
+      drawer,
+      durationSec,
+      startedAt: null,
+      direction: next.direction,
+      order: waterfallOrder(next, drawer),
+    };
+    next.turn = drawer; // stay on drawer
+  } else {
+    next.waterfall = null; // any non-ace draw clears any stale wf
+  }
+
+  // go-around round: drawer sets the word, turn stays with them until someone fails
+  next.goRound = null;
+  if (mechanic === "round") {
+    next.goRound = {
+      phase: "pending",
+      rank,
+      label: next.rules.ranks[rank]?.label || rank,
+      drawer,
+      word: null,
+      order: [],
+      index: 0,
+      turnSec: ROUND_TURN_SEC,
+      turnStartedAt: null,
+      passes: 0,
+      loser: null,
+    };
+  }
+
+  if (!next.waterfall && !next.goRound) next.turn = advanceTurn(next);
+  return next;
+}
+
+function startPowerRound(gs: GameState, kind: PowerKind, startedBy: string, ctx: EngineCtx): GameState {
+  if (!startedBy || !canStartPower(gs, kind, startedBy)) return gs;
+
+  const next = clone(gs);
+  const eligible = getTurnOrder(next);
+  if (!eligible.includes(startedBy)) eligible.unshift(startedBy);
+
+  next.powerRound = {
+    kind,
+    active: true,
+    startedBy,
+    eligible,
+    tapped: [],
+    loser: null,
+    startedAt: ctx.now(),
+  };
+  logEvent(next, ctx, { kind: "power_start", power: kind, by: startedBy, eligible: [...eligible] });
+
+  return next;
+}
+
+function tapPower(gs: GameState, kind: PowerKind, by: string, ctx: EngineCtx): GameState {
+  const cur = gs.powerRound;
+  if (!cur || !cur.active || cur.kind !== kind) return gs;
+  if (!by) return gs;
+
+  if (!cur.eligible.includes(by)) return gs;
+  if (cur.tapped.includes(by)) return gs;
+
+  const next = clone(gs);
+  const pr = next.powerRound!;
+  pr.tapped.push(by);
+
+  if (pr.tapped.length >= pr.eligible.length) finishPowerRound(next, ctx);
+
+  return next;
+}
+
+function clearPower(gs: GameState, requestedBy: string, ctx: EngineCtx): GameState {
+  const pr = gs.powerRound;
+  if (!pr) return gs;
+
+  const holder = holderFor(gs, pr.kind);
+  const allowed = requestedBy === gs.host || (holder && requestedBy === holder);
+  if (!allowed) return gs;
+
+  const next = clone(gs);
+  next.powerRound = null;
+  logEvent(next, ctx, { kind: "power_clear", power: pr.kind, by: requestedBy });
+  return next;
+}
+
+function startWaterfall(gs: GameState, requestedBy: string, ctx: EngineCtx): GameState {
+  const cur = gs.waterfall;
+  if (!cur) return gs;
+  if (cur.phase !== "pending") return gs;
+  if (cur.drawer !== requestedBy) return gs;
+
+  const next = clone(gs);
+  const wf = next.waterfall!;
+  wf.phase = "active";
+  wf.startedAt = ctx.now();
+  logEvent(next, ctx, { kind: "waterfall_start", by: requestedBy, durationSec: wf.durationSec, order: [...wf.order] });
+
+  return next;
+}
+
+function tickWaterfall(gs: GameState, ctx: EngineCtx): GameState {
+  const wf = gs.waterfall;
+  if (!wf || wf.phase !== "active" || !wf.startedAt) return gs;
+
+  const elapsed = (ctx.now() - wf.startedAt) / 1000;
+  if (elapsed < wf.durationSec) return gs;
+
+  // done: clear + NOW advance turn (turn stayed on drawer during waterfall)
+  const next = clone(gs);
+  next.waterfall = null;
+  next.turn = advanceTurn(next);
+  logEvent(next, ctx, { kind: "waterfall_end", drawer: wf.drawer, cancelled: false });
+  return next;
+}
+
+/* =========================
+   GO-AROUND ROUNDS
+========================= */
+
+export const ROUND_TURN_SEC = 10;
+
+function finishRound(gs: GameState, loser: string | null, ctx: EngineCtx) {
+  const r = gs.goRound!;
+  r.phase = "done";
+  r.loser = loser;
+  r.turnStartedAt = null;
+  if (loser && gs.players[loser]) gs.players[loser].roundLosses++;
+  logEvent(gs, ctx, { kind: "round_end", label: r.label, word: r.word || "", passes: r.passes, loser });
+
+  // turn stayed on the drawer (unless they left mid-round)
+  if (gs.turn === r.drawer) gs.turn = advanceTurn(gs);
+}
+
+function startRound(gs: GameState, by: string, word: string, ctx: EngineCtx): GameState {
+  const r = gs.goRound;
+  if (!by || !r || r.phase !== "pending") return gs;
+  if (by !== r.drawer && by !== gs.host) return gs;
+  const clean = (word || "").trim().slice(0, 60);
+  if (!clean) return gs;
+
+  const next = clone(gs);
+  const round = next.goRound!;
+  round.phase = "active";
+  round.word = clean;
+  round.order = waterfallOrder(next, round.drawer);
+  round.index = round.order.length > 1 ? 1 : 0; // setting the word was the drawer's go
+  round.turnStartedAt = ctx.now();
+  logEvent(next, ctx, { kind: "round_start", by, label: round.label, word: clean, order: [...round.order] });
+  return next;
+}
+
+// Whoever is up (or the host) calls it: a pass moves on, a fail ends the round.
+function markRound(gs: GameState, by: string, ok: boolean, ctx: EngineCtx): GameState {
+  const r = gs.goRound;
+  if (!by || !r || r.phase !== "active") return gs;
+  const up = r.order[r.index];
+  if (by !== up && by !== gs.host) return gs;
+
+  const next = clone(gs);
+  const round = next.goRound!;
+  logEvent(next, ctx, { kind: "round_mark", by, who: up, ok });
+  if (!ok) {
+    finishRound(next, up, ctx);
+    return next;
+  }
+  round.passes++;
+  round.index = (round.index + 1) % round.order.length;
+  round.turnStartedAt = ctx.now();
+  return next;
+}
+
+// Out of time counts as a fail.
+function tickRound(gs: GameState, ctx: EngineCtx): GameState {
+  const r = gs.goRound;
+  if (!r || r.phase !== "active" || !r.turnStartedAt) return gs;
+  if ((ctx.now() - r.turnStartedAt) / 1000 < r.turnSec) return gs;
+
+  const next = clone(gs);
+  const up = r.order[r.index];
+  logEvent(next, ctx, { kind: "round_mark", by: null, who: up, ok: false });
+  finishRound(next, up, ctx);
+  return next;
+}
+
+/* =========================
+   DRINK LEDGER
+========================= */
+
+export const MAX_DRINK_DELTA = 10;
+
+// Snapshots from before the ledger: one opening entry per player so totals survive.
+function carriedDrinks(gs: GameState): DrinkEntry[] {
+  const all = { ...gs.away, ...gs.players };
+  return Object.entries(all)
+    .filter(([, p]) => p.drinks > 0)
+    .map(([id, p]) => ({ id: `carry_${id}`, who: id, delta: p.drinks, reason: "Before the ledger", by: id, at: 0 }));
+}
+
+export function drinkTotals(gs: GameState): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const e of gs.drinkLog) {
+    if (!e.undoneBy) totals[e.who] = (totals[e.who] || 0) + e.delta;
+  }
+  return totals;
+}
+
+// players[].drinks (and away[]) always mirror the ledger
+function recountDrinks(gs: GameState) {
+  const totals = drinkTotals(gs);
+  for (const [id, p] of Object.entries(gs.players)) p.drinks = totals[id] || 0;
+  for (const [id, p] of Object.entries(gs.away)) p.drinks = totals[id] || 0;
+}
+
+// Everyone linked to `who` through mate links, chains included (not `who` themselves).
+export function matesOf(gs: GameState, who: string): string[] {
+  const seen = new Set([who]);
+  const queue = [who];
+  while (queue.length) {
+    const cur = queue.shift()!;
+    for (const [a, b] of gs.mates) {
+      const other = a === cur ? b : b === cur ? a : null;
+      if (other && !seen.has(other)) {
+        seen.add(other);
+        queue.push(other);
+      }
+    }
+  }
+  seen.delete(who);
+  return Array.from(seen);
+}
+
+// A drink (not a correction) also lands on every seated mate, as a linked entry. Caller recounts.
+function logDrink(next: GameState, by: string, who: string, delta: number, reason: string, ctx: EngineCtx) {
+  const entry: DrinkEntry = {
+    id: uid(ctx, "drink"),
+    who,
+    delta,
+    reason: reason.trim().slice(0, 80) || (delta > 0 ? "Drink" : "Correction"),
+    by,
+    at: ctx.now(),
+  };
+  next.drinkLog.push(entry);
+  logEvent(next, ctx, { kind: "drink", by, who, delta, reason: entry.reason, entryId: entry.id });
+
+  if (delta > 0) {
+    for (const mate of matesOf(next, who).filter((id) => next.players[id])) {
+      const linked: DrinkEntry = {
+        ...entry,
+        id: uid(ctx, "drink"),
+        who: mate,
+        reason: `Mate of ${displayName(next, who)}: ${entry.reason}`.slice(0, 80),
+        linkedTo: entry.id,
+      };
+      next.drinkLog.push(linked);
+      logEvent(next, ctx, { kind: "drink", by, who: mate, delta, reason: linked.reason, entryId: linked.id });
+    }
+  }
+}
+
+// Players log their own drinks; the host may log for anyone. Totals never go below zero.
+function drinkAdd(gs: GameState, by: string, who: string, delta: number, reason: string, ctx: EngineCtx): GameState {
+  if (!by || !who || !gs.players[who]) return gs;
+  if (by !== who && by !== gs.host) return gs;
+  if (!Number.isInteger(delta) || delta === 0 || Math.abs(delta) > MAX_DRINK_DELTA) return gs;
+  if ((drinkTotals(gs)[who] || 0) + delta < 0) return gs;
+
+  const next = clone(gs);
+  logDrink(next, by, who, delta, reason, ctx);
+  recountDrinks(next);
+  return next;
+}
+
+function promptDrinks(gs: GameState, who: string[], reason: string, ctx: EngineCtx) {
+  if (!who.length) return;
+  for (const id of who) gs.prompts.push({ id: uid(ctx, "prompt"), who: id, reason, at: ctx.now() });
+  logEvent(gs, ctx, { kind: "prompt", who, reason });
+}
+
+// The drinker (or the host for them) confirms a prompt into the ledger; only the host drops one.
+function resolvePrompt(gs: GameState, by: string, promptId: string, drink: boolean, ctx: EngineCtx): GameState {
+  const prompt = gs.prompts.find((p) => p.id === promptId);
+  if (!by || !prompt) return gs;
+  if (drink ? by !== prompt.who && by !== gs.host : by !== gs.host) return gs;
+  if (drink && !gs.players[prompt.who]) return gs;
+
+  const next = clone(gs);
+  next.prompts = next.prompts.filter((p) => p.id !== promptId);
+  if (drink) {
+    logDrink(next, by, prompt.who, 1, prompt.reason, ctx);
+    recountDrinks(next);
+  } else {
+    logEvent(next, ctx, { kind: "prompt_dismiss", by, who: prompt.who, reason: prompt.reason });
+  }
+  return next;
+}
+
+function setGroup(gs: GameState, by: string, group: string | null): GameState {
+  const p = gs.players[by];
+  if (!by || !p) return gs;
+  const clean = cleanGroup(group);
+  if (clean === p.group) return gs;
+
+  const next = clone(gs);
+  if (clean) next.players[by].group = clean;
+  else delete next.players[by].group;
+  return next;
+}
+
+// Host (or whoever logged it) takes an entry back, along with its mates' copies.
+function drinkUndo(gs: GameState, by: string, entryId: string, ctx: EngineCtx): GameState {
+  const entry = gs.drinkLog.find((e) => e.id === entryId);
+  if (!by || !entry || entry.undoneBy) return gs;
+  if (by !== gs.host && by !== entry.by) return gs;
+
+  // taking back a drink must not leave anyone (the drinker or a mate) below zero
+  const undone = gs.drinkLog.filter((e) => !e.undoneBy && (e.id === entryId || e.linkedTo === entryId));
+  const totals = drinkTotals(gs);
+  for (const e of undone) totals[e.who] = (totals[e.who] || 0) - e.delta;
+  if (undone.some((e) => totals[e.who] < 0)) return gs;
+
+  const next = clone(gs);
+  for (const e of next.drinkLog) {
+    if (!undone.some((u) => u.id === e.id)) continue;
+    e.undoneBy = by;
+    logEvent(next, ctx, { kind: "drink_undo", by, who: e.who, delta: e.delta, entryId: e.id });
+  }
+  recountDrinks(next);
+  return next;
+}
+
+function qmCaught(gs: GameState, qmBy: string, target: string, ctx: EngineCtx): GameState {
+  if (!gs.qmHolder || gs.qmHolder !== qmBy) return gs;
+  if (!target || target === qmBy) return gs;
+
+  const next = clone(gs);
+  ensurePlayer(next, target);
+  next.players[target].qmCaught = (next.players[target].qmCaught || 0) + 1;
+  logEvent(next, ctx, { kind: "qm_caught", by: qmBy, target });
+  return next;
+}
+
+function kingAddRule(gs: GameState, by: string, text: string, ctx: EngineCtx): GameState {
+  if (!gs.kingHolder || gs.kingHolder !== by) return gs;
+  const clean = (text || "").trim();
+  if (!clean) return gs;
+
+  const next = clone(gs);
+  next.kingRules = [
+    { id: uid(ctx, "rule"), text: clean, by, createdAt: ctx.now() },
+    ...(next.kingRules || []),
+  ].slice(0, 20);
+  logEvent(next, ctx, { kind: "king_rule", by, text: clean, removed: false });
+
+  return next;
+}
+
+function kingRemoveRule(gs: GameState, requestedBy: string, ruleId: string, ctx: EngineCtx): GameState {
+  const rules = gs.kingRules || [];
+  const rule = rules.find((r) => r.id === ruleId);
+  if (!rule) return gs;
+
+  const isHost = gs.host === requestedBy;
+  const isOwner = rule.by === requestedBy;
+
+  if (!isHost && !isOwner) return gs;
+
+  const next = clone(gs);
+  next.kingRules = rules.filter((r) => r.id !== ruleId);
+  logEvent(next, ctx, { kind: "king_rule", by: requestedBy, text: rule.text, removed: true });
+  return next;
+}
+
+/* =========================
+   LIFECYCLE
+========================= */
+
+function startGame(gs: GameState, by: string, ctx: EngineCtx): GameState {
+  if (!by || by !== gs.host || gs.phase !== "lobby") return gs;
+
+  const next = clone(gs);
+  next.phase = "playing";
+  if (!next.turn || !next.players[next.turn]) next.turn = getTurnOrder(next)[0] ?? by;
+  logEvent(next, ctx, { kind: "phase", phase: "playing", by });
+  return next;
+}
+
+// Deck ran out or King's Cup was drunk: a fresh shuffle, a fresh set of kings; stats and rules carry on.
+function continueGame(gs: GameState, by: string, ctx: EngineCtx): GameState {
+  if (!by || by !== gs.host || gs.phase !== "finished") return gs;
+
+  const next = clone(gs);
+  newDeck(next, ctx, []);
+  next.drawn = [];
+  next.kingsDrawn = 0;
+  next.kingsCup = null;
+  next.phase = "playing";
+  logEvent(next, ctx, { kind: "reshuffle", by });
+  return next;
+}
+
+// Same table (seats, rules, settings), everything else from scratch. An abandoned deck is revealed first,
+// and the proofs of earlier decks stay checkable.
+function newGame(gs: GameState, by: string, ctx: EngineCtx): GameState {
+  if (!by || by !== gs.host || gs.phase === "lobby") return gs;
+
+  const old = clone(gs);
+  revealDeck(old);
+  const next = emptyState();
+  next.revealed = old.revealed;
+  next.gameId = uid(ctx, "game");
+  next.rev = gs.rev;
+  next.host = gs.host;
+  next.maxPlayers = gs.maxPlayers;
+  next.seats = gs.seats.filter((id) => gs.players[id]);
+  next.direction = gs.direction;
+  next.rules = clone(gs.rules);
+  for (const [id, p] of Object.entries(gs.players)) ensurePlayer(next, id, p.name);
+  newDeck(next, ctx, []);
+  next.turn = gs.host;
+  logEvent(next, ctx, { kind: "phase", phase: "lobby", by });
+  return next;
+}
+
+// The drawer (or the host for them) names who a target or mate card is for; once per draw.
+function pickTarget(gs: GameState, by: string, target: string, ctx: EngineCtx): GameState {
+  const pick = gs.targetPick;
+  if (!by || !pick || pick.target) return gs;
+  if (by !== pick.drawer && by !== gs.host) return gs;
+  if (!gs.players[target] || target === pick.drawer) return gs;
+
+  const next = clone(gs);
+  next.targetPick!.target = target;
+  if (pick.mechanic === "mate") {
+    if (!matesOf(gs, pick.drawer).includes(target)) next.mates.push([pick.drawer, target]);
+    logEvent(next, ctx, { kind: "mate", by: pick.drawer, mate: target });
+  } else {
+    logEvent(next, ctx, { kind: "target_pick", by: pick.drawer, target, rank: pick.rank });
+    const label = next.rules.ranks[pick.rank]?.label || "Pick";
+    promptDrinks(next, [target], `${next.currentCard || pick.rank} · ${label}`, ctx);
+  }
+  return next;
+}
+
+function clearMates(gs: GameState, by: string, ctx: EngineCtx): GameState {
+  if (!by || by !== gs.host || !gs.mates.length) return gs;
+
+  const next = clone(gs);
+  next.mates = [];
+  logEvent(next, ctx, { kind: "mates_clear", by });
+  return next;
+}
+
+// Host swaps the house rules; they apply from the next draw.
+function setRules(gs: GameState, by: string, rules: RuleSet, ctx: EngineCtx): GameState {
+  if (!by || by !== gs.host) return gs;
+  const clean = sanitizeRules(rules);
+  if (!clean) return gs;
+
+  const next = clone(gs);
+  next.rules = clean;
+  logEvent(next, ctx, { kind: "rules", by, name: clean.name });
+  return next;
+}
+
+function playerJoin(gs: GameState, id: string, name: string | undefined, ctx: EngineCtx): GameState {
+  if (!id) return gs;
+  if (gs.players[id] && gs.turn && (!name || gs.players[id].name === name)) return gs;
+
+  // table full: they can still watch, and get a seat once someone leaves and they rejoin
+  const seated = Object.keys(gs.players).length;
+  if (!gs.players[id] && seated >= gs.maxPlayers) return gs;
+
+  const next = clone(gs);
+  if (!next.players[id] && next.away?.[id]) {
+    // back after a refresh / drop: same seat, same stats
+    next.players[id] = next.away[id];
+    delete next.away[id];
+  }
+  if (!gs.players[id]) logEvent(next, ctx, { kind: "join", who: id });
+  ensurePlayer(next, id, name);
+  if (!next.turn) next.turn = next.host || id;
+  return next;
+}
+
+function playerLeave(gs: GameState, id: string, ctx: EngineCtx): GameState {
+  if (!id) return gs;
+
+  const n = clone(gs);
+
+  if (n.players[id]) {
+    n.away = { ...(n.away || {}), [id]: n.players[id] };
+    delete n.players[id];
+    logEvent(n, ctx, { kind: "leave", who: id });
+  }
+  if (n.turn === id) n.turn = advanceTurn(n);
+
+  for (const holder of Object.keys(HOLDER_KEYS) as Holder[]) {
+    if (n[HOLDER_KEYS[holder]] === id) setHolder(n, holder, null, ctx);
+  }
+
+  if (n.powerRound?.active) {
+    const pr = n.powerRound;
+    pr.eligible = pr.eligible.filter((x) => x !== id);
+    pr.tapped = pr.tapped.filter((x) => x !== id);
+
+    if (pr.eligible.length > 0 && pr.tapped.length >= pr.eligible.length) finishPowerRound(n, ctx);
+  }
+
+  // if waterfall drawer leaves, cancel waterfall (the turn stayed with them, so it has moved on already)
+  if (n.waterfall && n.waterfall.drawer === id) {
+    n.waterfall = null;
+    logEvent(n, ctx, { kind: "waterfall_end", drawer: id, cancelled: true });
+  }
+
+  // pending round loses its drawer: drop it; running round carries on without them
+  const r = n.goRound;
+  if (r?.phase === "pending" && r.drawer === id) {
+    n.goRound = null;
+  } else if (r?.phase === "active" && r.order.includes(id)) {
+    const at = r.order.indexOf(id);
+    const wasUp = at === r.index;
+    r.order = r.order.filter((x) => x !== id);
+    if (at < r.index) r.index--;
+    if (wasUp) r.turnStartedAt = ctx.now();
+    r.index = r.order.length ? r.index % r.order.length : 0;
+    if (r.order.length < 2) finishRound(n, null, ctx);
+  }
+
+  return n;
+}
+
+function hostClaim(gs: GameState, by: string, name: string | undefined, ctx: EngineCtx): GameState {
+  if (!by) return gs;
+
+  const next = clone(gs);
+  ensurePlayer(next, by, name);
+
+  if (!next.host) {
+    next.gameId = uid(ctx, "game");
+    next.rev = 0;
+    next.host = by;
+    next.phase = "lobby";
+    logEvent(next, ctx, { kind: "host", from: null, to: by });
+    newDeck(next, ctx, []);
+    next.drawn = [];
+    next.turn = by;
+  } else {
+    if (!next.turn) next.turn = next.host;
+  }
+
+  return next;
+}
+
+// Take over an in-progress game (previous host left); stats carry over.
+// Guests never saw the deck order or seed, so the undrawn cards get a fresh committed shuffle
+// (the old commitment is dropped: no guest ever had its seed).
+function hostMigrate(gs: GameState, to: string, ctx: EngineCtx): GameState {
+  if (!to || gs.host === to) return gs;
+
+  const next = clone(gs);
+  next.host = to;
+  logEvent(next, ctx, { kind: "host", from: gs.host, to });
+  if (!next.deck.length && next.deckCount > 0) {
+    revealDeck(next);
+    newDeck(next, ctx, next.drawn);
+  }
+  ensurePlayer(next, to);
+  if (!next.turn || !next.players[next.turn]) next.turn = to;
+  return next;
+}
+
+// The host hands the game to another seated player; deck and commitment travel with it.
+function hostTransfer(gs: GameState, by: string, to: string, ctx: EngineCtx): GameState {
+  if (!by || by !== gs.host || !to || to === by || !gs.players[to]) return gs;
+
+  const next = clone(gs);
+  next.host = to;
+  logEvent(next, ctx, { kind: "host", from: by, to });
+  return next;
+}
+
+// Lowering it below the current count keeps everyone seated; it only stops new joins.
+function setMaxPlayers(gs: GameState, by: string, max: number): GameState {
+  if (!by || by !== gs.host || !Number.isFinite(max)) return gs;
+  const clamped = Math.min(MAX_PLAYERS_LIMIT, Math.max(2, Math.round(max)));
+  if (clamped === gs.maxPlayers) return gs;
+
+  const next = clone(gs);
+  next.maxPlayers = clamped;
+  return next;
+}
+
+// Host drags seats around; unknown ids are dropped, anyone left out keeps their place at the end.
+function setSeats(gs: GameState, by: string, seats: string[]): GameState {
+  if (!by || by !== gs.host) return gs;
+
+  const known = (id: string) => gs.seats.includes(id) || !!gs.players[id];
+  const ordered = Array.from(new Set(seats.filter(known)));
+  const rest = gs.seats.filter((id) => !ordered.includes(id));
+  const next = clone(gs);
+  next.seats = [...ordered, ...rest];
+  if (next.waterfall?.phase === "pending") next.waterfall.order = waterfallOrder(next, next.waterfall.drawer);
+  return next;
+}
+
+function reverseDirection(gs: GameState, by: string): GameState {
+  if (!by || by !== gs.host) return gs;
+
+  const next = clone(gs);
+  next.direction = gs.direction === "clockwise" ? "counterclockwise" : "clockwise";
+  if (next.waterfall?.phase === "pending") {
+    next.waterfall.direction = next.direction;
+    next.waterfall.order = waterfallOrder(next, next.waterfall.drawer);
+  }
+  return next;
+}
+
+/* =========================
+   REDUCER
+========================= */
+
+// Pure: returns `gs` itself when the message is rejected or changes nothing.
+export function reduce(gs: GameState, msg: Msg, ctx: EngineCtx = defaultCtx): GameState {
+  switch (msg.type) {
+    case "STATE":
+      return normalizeState(msg.data);
+    case "DRAW":
+      return draw(gs, msg.requestedBy, msg.onBehalfOf, ctx);
+    case "DRINK_ADD":
+      return drinkAdd(gs, msg.requestedBy, msg.who, msg.delta, msg.reason, ctx);
+    case "DRINK_UNDO":
+      return drinkUndo(gs, msg.requestedBy, msg.entryId, ctx);
+    case "POWER_START":
+      return startPowerRound(gs, msg.kind, msg.requestedBy, ctx);
+    case "POWER_TAP":
+      return tapPower(gs, msg.kind, msg.by, ctx);
+    case "POWER_CLEAR":
+      return clearPower(gs, msg.requestedBy, ctx);
+    case "WATERFALL_START":
+      return startWaterfall(gs, msg.requestedBy, ctx);
+    case "WATERFALL_TICK":
+      return tickWaterfall(gs, ctx);
+    case "ROUND_START":
+      return startRound(gs, msg.requestedBy, msg.word, ctx);
+    case "ROUND_MARK":
+      return markRound(gs, msg.requestedBy, msg.ok, ctx);
+    case "ROUND_TICK":
+      return tickRound(gs, ctx);
+    case "QM_CAUGHT":
+      return qmCaught(gs, msg.requestedBy, msg.target, ctx);
+    case "KING_ADD_RULE":
+      return kingAddRule(gs, msg.requestedBy, msg.text, ctx);
+    case "KING_REMOVE_RULE":
+      return kingRemoveRule(gs, msg.requestedBy, msg.ruleId, ctx);
+    case "TARGET_PICK":
+      return pickTarget(gs, msg.requestedBy, msg.target, ctx);
+    case "RULES_SET":
+      return setRules(gs, msg.requestedBy, msg.rules, ctx);
+    case "MATES_CLEAR":
+      return clearMates(gs, msg.requestedBy, ctx);
+    case "GROUP_SET":
+      return setGroup(gs, msg.requestedBy, msg.group);
+    case "PROMPT_RESOLVE":
+      return resolvePrompt(gs, msg.requestedBy, msg.promptId, msg.drink, ctx);
+    case "GAME_START":
+      return startGame(gs, msg.requestedBy, ctx);
+    case "GAME_CONTINUE":
+      return continueGame(gs, msg.requestedBy, ctx);
+    case "GAME_NEW":
+      return newGame(gs, msg.requestedBy, ctx);
+    case "PLAYER_JOIN":
+      return playerJoin(gs, msg.id, msg.name, ctx);
+    case "PLAYER_LEAVE":
+      return playerLeave(gs, msg.id, ctx);
+    case "HOST_CLAIM":
+      return hostClaim(gs, msg.by, msg.name, ctx);
+    case "HOST_MIGRATE":
+      return hostMigrate(gs, msg.to, ctx);
+    case "HOST_TRANSFER":
+      return hostTransfer(gs, msg.requestedBy, msg.to, ctx);
+    case "SET_MAX_PLAYERS":
+      return setMaxPlayers(gs, msg.requestedBy, msg.max);
+    case "SEATS_SET":
+      return setSeats(gs, msg.requestedBy, msg.seats);
+    case "DIRECTION_REVERSE":
+      return reverseDirection(gs, msg.requestedBy);
+    default:
+      return gs;
+  }
+}
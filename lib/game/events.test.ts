@@ -0,0 +1,26 @@
+/* lib/game/events.test.ts */
+
+import { describe, expect, it } from "vitest";
+
+import { mergeEvents } from "./events";
+import type { GameEvent } from "./types";
+
+const join = (seq: number, who: string, at = seq): GameEvent => ({ seq, at, kind: "join", who });
+
+describe("mergeEvents", () => {
+  it("keeps older history the host no longer sends", () => {
+    const have = [join(1, "a"), join(2, "b")];
+    expect(mergeEvents(have, [join(2, "b"), join(3, "c")])).toEqual([join(1, "a"), join(2, "b"), join(3, "c")]);
+  });
+
+  it("lets the host's events replace ones this client logged itself", () => {
+    const have = [join(1, "a"), join(2, "local", 50)];
+    expect(mergeEvents(have, [join(2, "b"), join(3, "c")])).toEqual([join(1, "a"), join(2, "b"), join(3, "c")]);
+  });
+
+  it("returns what it had when nothing changed", () => {
+    const have = [join(1, "a"), join(2, "b")];
+    expect(mergeEvents(have, [join(2, "b")])).toBe(have);
+    expect(mergeEvents(have, [])).toBe(have);
+  });
+});
@@ -0,0 +1,143 @@
+/* lib/game/events.ts */
+
+import type { GameEvent, GameState, Holder } from "./types";
+
+/* =========================
+   TEXT
+========================= */
+
+const HOLDER_LABELS: Record<Holder, string> = {
+  heaven: "Heaven (7)",
+  thumb: "Thumb (J)",
+  qm: "Question Master",
+  king: "King",
+};
+
+// One readable line per event; `name` turns identities into display names.
+export function describeEvent(e: GameEvent, name: (id: string | null) => string): string {
+  switch (e.kind) {
+    case "draw":
+      return e.by === e.drawer
+        ? `${name(e.drawer)} drew ${e.card || "nothing"}`
+        : `${name(e.by)} drew ${e.card || "nothing"} for ${name(e.drawer)}`;
+    case "holder":
+      if (!e.to) return `${HOLDER_LABELS[e.holder]} left with ${name(e.from)}`;
+      return `${name(e.to)} is now ${HOLDER_LABELS[e.holder]}${e.from ? ` (was ${name(e.from)})` : ""}`;
+    case "power_start":
+      return `${name(e.by)} started ${e.power === "heaven" ? "Heaven" : "Thumb"} (${e.eligible.length} players)`;
+    case "power_end":
+      return `${e.power === "heaven" ? "Heaven" : "Thumb"} over: ${e.tapped.map(name).join(" → ") || "no taps"}${
+        e.loser ? `, ${name(e.loser)} last` : ""
+      }`;
+    case "power_clear":
+      return `${name(e.by)} cleared the ${e.power === "heaven" ? "Heaven" : "Thumb"} round`;
+    case "waterfall_start":
+      return `${name(e.by)} started a ${e.durationSec}s waterfall: ${e.order.map(name).join(" → ")}`;
+    case "waterfall_end":
+      return e.cancelled ? `Waterfall cancelled, ${name(e.drawer)} left` : "Waterfall over";
+    case "qm_caught":
+      return `${name(e.by)} caught ${name(e.target)} answering a question`;
+    case "king_rule":
+      return e.removed ? `${name(e.by)} removed rule "${e.text}"` : `${name(e.by)} made a rule: "${e.text}"`;
+    case "drink": {
+      const amount = e.delta > 0 ? `+${e.delta}` : `${e.delta}`;
+      return `${amount} ${name(e.who)} · ${e.reason}${e.by !== e.who ? ` (by ${name(e.by)})` : ""}`;
+    }
+    case "drink_undo":
+      return `${name(e.by)} undid ${e.delta > 0 ? `+${e.delta}` : e.delta} for ${name(e.who)}`;
+    case "target_pick":
+      return `${name(e.by)} picked ${name(e.target)} (${e.rank})`;
+    case "rules":
+      return `${name(e.by)} set the house rules: ${e.name}`;
+    case "mate":
+      return `${name(e.by)} and ${name(e.mate)} are mates`;
+    case "mates_clear":
+      return e.by ? `${name(e.by)} cleared all mates` : "Mates cleared: game over";
+    case "prompt":
+      return `${e.reason}: ${e.who.map(name).join(", ")} to drink`;
+    case "prompt_dismiss":
+      return `${name(e.by)} dropped ${name(e.who)}'s drink (${e.reason})`;
+    case "round_start":
+      return `${name(e.by)} started ${e.label}: "${e.word}"`;
+    case "round_mark":
+      if (e.ok) return `${name(e.who)} passed`;
+      return e.by ? `${name(e.who)} failed` : `${name(e.who)} ran out of time`;
+    case "round_end":
+      return e.loser
+        ? `${e.label} "${e.word}" over after ${e.passes} passes: ${name(e.loser)} lost`
+        : `${e.label} "${e.word}" fizzled out`;
+    case "phase":
+      if (e.phase === "playing") return `${name(e.by)} started the game`;
+      if (e.phase === "lobby") return `${name(e.by)} set up a new game`;
+      return "Deck empty: game over";
+    case "kings_cup":
+      return `Fourth king! ${name(e.drinker)} drinks the King's Cup`;
+    case "reshuffle":
+      return `${name(e.by)} reshuffled to play on`;
+    case "join":
+      return `${name(e.who)} sat down`;
+    case "leave":
+      return `${name(e.who)} left`;
+    case "host":
+      return e.from ? `${name(e.to)} took over as host from ${name(e.from)}` : `${name(e.to)} is hosting`;
+    default:
+      return "";
+  }
+}
+
+/* =========================
+   EXPORT
+========================= */
+
+function csvCell(v: string | number): string {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Who the event is mainly about, for the CSV's actor column.
+function actorOf(e: GameEvent): string | null {
+  if (e.kind === "prompt") return null;
+  if ("by" in e) return e.by;
+  if ("who" in e) return e.who;
+  if ("drawer" in e) return e.drawer;
+  if ("to" in e) return e.to;
+  return null;
+}
+
+// seq, ISO time, kind, actor, text; one row per event.
+export function eventsToCsv(events: GameEvent[], name: (id: string | null) => string): string {
+  const rows = events.map((e) =>
+    [e.seq, new Date(e.at).toISOString(), e.kind, name(actorOf(e)), describeEvent(e, name)].map(csvCell).join(",")
+  );
+  return ["seq,time,kind,actor,text", ...rows].join("\n") + "\n";
+}
+
+const sameEvent = (a: GameEvent | undefined, b: GameEvent) => a?.seq === b.seq && a.at === b.at && a.kind === b.kind;
+
+// `incoming` (the latest slice of one game's log) replaces everything in `have` from its first seq on, so
+// the host's record wins over whatever this client logged itself; `have` if nothing changed.
+export function mergeEvents(have: GameEvent[], incoming: GameEvent[]): GameEvent[] {
+  if (!incoming.length) return have;
+  const kept = have.filter((e) => e.seq < incoming[0].seq);
+  const same = kept.length + incoming.length === have.length;
+  return same && incoming.every((e, i) => sameEvent(have[kept.length + i], e)) ? have : [...kept, ...incoming];
+}
+
+// Everything public about the session, for a JSON download.
+export function sessionExport(gs: GameState, room: string, exportedAt: number) {
+  return {
+    room,
+    gameId: gs.gameId,
+    exportedAt,
+    players: { ...gs.away, ...gs.players },
+    seats: gs.seats,
+    drawn: gs.drawn,
+    revealed: gs.revealed,
+    rules: gs.rules,
+    mates: gs.mates,
+    prompts: gs.prompts,
+    kingRules: gs.kingRules,
+    drinkLog: gs.drinkLog,
+    events: gs.events,
+  };
+}
@@ -0,0 +1,39 @@
+/* lib/game/protocol.test.ts */
+
+import { describe, expect, it } from "vitest";
+
+import { emptyState, reduce, toPublic } from "./engine";
+import { PROTOCOL_VERSION, parseEnvelope } from "./protocol";
+import type { EngineCtx, GameState } from "./types";
+
+const ctx: EngineCtx = { random: () => 0.25, now: () => 1_000, seed: () => "seed" };
+
+function stateMsg(data: GameState) {
+  return { v: PROTOCOL_VERSION, msg: { type: "STATE", data } };
+}
+
+describe("STATE events", () => {
+  const played = toPublic(
+    [
+      { type: "HOST_CLAIM", by: "a" } as const,
+      { type: "PLAYER_JOIN", id: "b" } as const,
+      { type: "GAME_START", requestedBy: "a" } as const,
+      { type: "DRAW", requestedBy: "a" } as const,
+    ].reduce((gs: GameState, m) => reduce(gs, m, ctx), emptyState())
+  );
+
+  it("accepts what the engine logs", () => {
+    expect(played.events.length).toBeGreaterThan(3);
+    expect(parseEnvelope(stateMsg(played)).ok).toBe(true);
+  });
+
+  it("drops events missing the fields of their kind", () => {
+    const bare = { ...played, events: [{ seq: 1, at: 1, kind: "power_end" }] } as any;
+    expect(parseEnvelope(stateMsg(bare)).ok).toBe(false);
+  });
+
+  it("drops kinds it doesn't know", () => {
+    const odd = { ...played, events: [{ seq: 1, at: 1, kind: "toString", who: "a" }] } as any;
+    expect(parseEnvelope(stateMsg(odd)).ok).toBe(false);
+  });
+});
@@ -0,0 +1,282 @@
+/* lib/game/protocol.ts */
+
+import type { EventBody, GameState, Msg } from "./types";
+
+/* =========================
+   ENVELOPE
+========================= */
+
+// Bump on any incompatible change to Msg or GameState.
+export const PROTOCOL_VERSION = 3; // v3: lobby lifecycle, custom rules, picks, prompts, rounds
+
+export type Envelope = { v: number; msg: Msg };
+
+export type Decoded =
+  | { ok: true; msg: Msg }
+  | { ok: false; error: "parse" | "version" | "invalid"; reason: string; version?: number };
+
+export function encodeMsg(msg: Msg): Uint8Array {
+  const env: Envelope = { v: PROTOCOL_VERSION, msg };
+  return new TextEncoder().encode(JSON.stringify(env));
+}
+
+export function decodeMsg(buf: Uint8Array): Decoded {
+  let raw: any;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(buf));
+  } catch {
+    return { ok: false, error: "parse", reason: "Not JSON." };
+  }
+  return parseEnvelope(raw);
+}
+
+// Same checks for an already-parsed body (e.g. an API request).
+export function parseEnvelope(raw: any): Decoded {
+  if (!isObj(raw) || typeof raw.v !== "number") {
+    return { ok: false, error: "version", reason: "No protocol version (older client).", version: 0 };
+  }
+  if (raw.v !== PROTOCOL_VERSION) {
+    const reason = `Protocol v${raw.v}, this client speaks v${PROTOCOL_VERSION}.`;
+    return { ok: false, error: "version", reason, version: raw.v };
+  }
+
+  const reason = validateMsg(raw.msg);
+  if (reason) return { ok: false, error: "invalid", reason };
+  return { ok: true, msg: raw.msg as Msg };
+}
+
+/* =========================
+   SCHEMA
+========================= */
+
+function isObj(x: any): x is Record<string, any> {
+  return !!x && typeof x === "object" && !Array.isArray(x);
+}
+
+const MAX_NAME = 32; // what /api/token lets a display name be
+
+const isStr = (x: any) => typeof x === "string";
+const isNum = (x: any) => typeof x === "number" && Number.isFinite(x);
+const isBool = (x: any) => typeof x === "boolean";
+const isStrOrNull = (x: any) => x === null || isStr(x);
+const isStrArr = (x: any) => Array.isArray(x) && x.every(isStr);
+const isPowerKind = (x: any) => x === "heaven" || x === "thumb";
+const isDirection = (x: any) => x === "clockwise" || x === "counterclockwise";
+const isPhase = (x: any) => x === "lobby" || x === "playing" || x === "finished";
+
+function isPlayers(x: any): boolean {
+  if (!isObj(x)) return false;
+  return Object.values(x).every((p) => isObj(p) && isStr(p.name) && isNum(p.drinks) && isNum(p.cardsDrawn));
+}
+
+function isPowerRound(x: any): boolean {
+  return (
+    isObj(x) &&
+    isPowerKind(x.kind) &&
+    isBool(x.active) &&
+    isStr(x.startedBy) &&
+    isStrArr(x.eligible) &&
+    isStrArr(x.tapped) &&
+    isStrOrNull(x.loser)
+  );
+}
+
+function isWaterfall(x: any): boolean {
+  return (
+    isObj(x) &&
+    (x.phase === "pending" || x.phase === "active") &&
+    isStr(x.drawer) &&
+    isNum(x.durationSec) &&
+    (x.startedAt === null || isNum(x.startedAt)) &&
+    (x.direction === undefined || isDirection(x.direction)) &&
+    (x.order === undefined || isStrArr(x.order))
+  );
+}
+
+function isGoRound(x: any): boolean {
+  return (
+    isObj(x) &&
+    (x.phase === "pending" || x.phase === "active" || x.phase === "done") &&
+    isStr(x.rank) &&
+    isStr(x.label) &&
+    isStr(x.drawer) &&
+    isStrOrNull(x.word) &&
+    isStrArr(x.order) &&
+    isNum(x.index) &&
+    isNum(x.turnSec) &&
+    (x.turnStartedAt === null || isNum(x.turnStartedAt)) &&
+    isNum(x.passes) &&
+    isStrOrNull(x.loser)
+  );
+}
+
+function isKingRule(x: any): boolean {
+  return isObj(x) && isStr(x.id) && isStr(x.text) && isStr(x.by);
+}
+
+function isDrinkEntry(x: any): boolean {
+  return (
+    isObj(x) &&
+    isStr(x.id) &&
+    isStr(x.who) &&
+    isNum(x.delta) &&
+    isStr(x.reason) &&
+    isStr(x.by) &&
+    isNum(x.at) &&
+    (x.undoneBy === undefined || isStr(x.undoneBy)) &&
+    (x.linkedTo === undefined || isStr(x.linkedTo))
+  );
+}
+
+const isHolder = (x: any) => x === "heaven" || x === "thumb" || x === "qm" || x === "king";
+
+// The timeline and the CSV export read every field of an event's kind.
+const EVENT_FIELDS: Record<EventBody["kind"], (e: Record<string, any>) => boolean> = {
+  draw: (e) => isStr(e.by) && isStr(e.drawer) && isStrOrNull(e.card),
+  holder: (e) => isHolder(e.holder) && isStrOrNull(e.from) && isStrOrNull(e.to),
+  power_start: (e) => isPowerKind(e.power) && isStr(e.by) && isStrArr(e.eligible),
+  power_end: (e) => isPowerKind(e.power) && isStrArr(e.tapped) && isStrOrNull(e.loser),
+  power_clear: (e) => isPowerKind(e.power) && isStr(e.by),
+  waterfall_start: (e) => isStr(e.by) && isNum(e.durationSec) && isStrArr(e.order),
+  waterfall_end: (e) => isStr(e.drawer) && isBool(e.cancelled),
+  qm_caught: (e) => isStr(e.by) && isStr(e.target),
+  king_rule: (e) => isStr(e.by) && isStr(e.text) && isBool(e.removed),
+  drink: (e) => isStr(e.by) && isStr(e.who) && isNum(e.delta) && isStr(e.reason) && isStr(e.entryId),
+  drink_undo: (e) => isStr(e.by) && isStr(e.who) && isNum(e.delta) && isStr(e.entryId),
+  target_pick: (e) => isStr(e.by) && isStr(e.target) && isStr(e.rank),
+  rules: (e) => isStr(e.by) && isStr(e.name),
+  mate: (e) => isStr(e.by) && isStr(e.mate),
+  prompt: (e) => isStrArr(e.who) && isStr(e.reason),
+  round_start: (e) => isStr(e.by) && isStr(e.label) && isStr(e.word) && isStrArr(e.order),
+  round_mark: (e) => isStrOrNull(e.by) && isStr(e.who) && isBool(e.ok),
+  round_end: (e) => isStr(e.label) && isStr(e.word) && isNum(e.passes) && isStrOrNull(e.loser),
+  prompt_dismiss: (e) => isStr(e.by) && isStr(e.who) && isStr(e.reason),
+  mates_clear: (e) => isStrOrNull(e.by),
+  phase: (e) => isPhase(e.phase) && isStrOrNull(e.by),
+  kings_cup: (e) => isStr(e.drinker),
+  reshuffle: (e) => isStr(e.by),
+  join: (e) => isStr(e.who),
+  leave: (e) => isStr(e.who),
+  host: (e) => isStrOrNull(e.from) && isStr(e.to),
+};
+
+function isGameEvent(x: any): boolean {
+  if (!isObj(x) || !isNum(x.seq) || !isNum(x.at) || !isStr(x.kind)) return false;
+  return Object.hasOwn(EVENT_FIELDS, x.kind) && EVENT_FIELDS[x.kind as EventBody["kind"]](x);
+}
+
+function isRankRule(x: any): boolean {
+  return isObj(x) && isStr(x.label) && isStr(x.text) && isStr(x.mechanic) && (x.group === undefined || isStr(x.group));
+}
+
+function isDrinkPrompt(x: any): boolean {
+  return isObj(x) && isStr(x.id) && isStr(x.who) && isStr(x.reason) && isNum(x.at);
+}
+
+// Shape only; the engine's sanitizeRules clamps lengths and unknown mechanics.
+function isRuleSet(x: any): boolean {
+  return isObj(x) && isStr(x.name) && isObj(x.ranks) && Object.values(x.ranks).every(isRankRule);
+}
+
+function isKingsCup(x: any): boolean {
+  return isObj(x) && isStr(x.drinker) && isNum(x.at);
+}
+
+function isTargetPick(x: any): boolean {
+  return (
+    isObj(x) &&
+    isStr(x.drawer) &&
+    isStr(x.rank) &&
+    (x.mechanic === undefined || x.mechanic === "target" || x.mechanic === "mate") &&
+    isStrOrNull(x.target)
+  );
+}
+
+const isMatePair = (x: any) => Array.isArray(x) && x.length === 2 && isStr(x[0]) && isStr(x[1]);
+
+function isShuffleCommit(x: any): boolean {
+  return isObj(x) && isStr(x.commit) && isStrOrNull(x.seed) && isStrArr(x.gone) && isStrArr(x.drawn);
+}
+
+// Loose on purpose: optional fields are filled by normalizeState, wrong types are not.
+function isGameState(x: any): x is GameState {
+  if (!isObj(x)) return false;
+  const opt = (v: any, check: (v: any) => boolean) => v === undefined || check(v);
+
+  return (
+    isStrOrNull(x.host) &&
+    isPlayers(x.players) &&
+    opt(x.phase, isPhase) &&
+    opt(x.away, isPlayers) &&
+    opt(x.maxPlayers, isNum) &&
+    opt(x.seats, isStrArr) &&
+    opt(x.direction, isDirection) &&
+    opt(x.gameId, isStrOrNull) &&
+    opt(x.rev, isNum) &&
+    opt(x.deck, isStrArr) &&
+    opt(x.deckCount, isNum) &&
+    opt(x.drawn, isStrArr) &&
+    opt(x.currentCard, isStrOrNull) &&
+    opt(x.kingsDrawn, isNum) &&
+    opt(x.kingsCup, (v) => v === null || isKingsCup(v)) &&
+    opt(x.turn, isStrOrNull) &&
+    opt(x.lastDrawBy, isStrOrNull) &&
+    opt(x.heavenHolder, isStrOrNull) &&
+    opt(x.thumbHolder, isStrOrNull) &&
+    opt(x.qmHolder, isStrOrNull) &&
+    opt(x.kingHolder, isStrOrNull) &&
+    opt(x.powerRound, (v) => v === null || isPowerRound(v)) &&
+    opt(x.waterfall, (v) => v === null || isWaterfall(v)) &&
+    opt(x.goRound, (v) => v === null || isGoRound(v)) &&
+    opt(x.kingRules, (v) => Array.isArray(v) && v.every(isKingRule)) &&
+    opt(x.drinkLog, (v) => Array.isArray(v) && v.every(isDrinkEntry)) &&
+    opt(x.rules, isRuleSet) &&
+    opt(x.targetPick, (v) => v === null || isTargetPick(v)) &&
+    opt(x.mates, (v) => Array.isArray(v) && v.every(isMatePair)) &&
+    opt(x.prompts, (v) => Array.isArray(v) && v.every(isDrinkPrompt)) &&
+    opt(x.events, (v) => Array.isArray(v) && v.every(isGameEvent)) &&
+    opt(x.shuffleCommit, (v) => v === null || isShuffleCommit(v)) &&
+    opt(x.revealed, (v) => Array.isArray(v) && v.every(isShuffleCommit))
+  );
+}
+
+// Only messages peers may send each other; engine-internal ones (ticks, joins, host claims) never travel.
+const WIRE: Partial<Record<Msg["type"], (m: Record<string, any>) => boolean>> = {
+  STATE: (m) => isGameState(m.data),
+  DRAW: (m) => isStr(m.requestedBy) && (m.onBehalfOf === undefined || isStr(m.onBehalfOf)),
+  DRINK_ADD: (m) => isStr(m.requestedBy) && isStr(m.who) && isNum(m.delta) && isStr(m.reason),
+  DRINK_UNDO: (m) => isStr(m.requestedBy) && isStr(m.entryId),
+  POWER_START: (m) => isPowerKind(m.kind) && isStr(m.requestedBy),
+  POWER_TAP: (m) => isPowerKind(m.kind) && isStr(m.by),
+  POWER_CLEAR: (m) => isStr(m.requestedBy),
+  WATERFALL_START: (m) => isStr(m.requestedBy),
+  ROUND_START: (m) => isStr(m.requestedBy) && isStr(m.word),
+  ROUND_MARK: (m) => isStr(m.requestedBy) && isBool(m.ok),
+  QM_CAUGHT: (m) => isStr(m.requestedBy) && isStr(m.target),
+  KING_ADD_RULE: (m) => isStr(m.requestedBy) && isStr(m.text),
+  KING_REMOVE_RULE: (m) => isStr(m.requestedBy) && isStr(m.ruleId),
+  TARGET_PICK: (m) => isStr(m.requestedBy) && isStr(m.target),
+  RULES_SET: (m) => isStr(m.requestedBy) && isRuleSet(m.rules),
+  MATES_CLEAR: (m) => isStr(m.requestedBy),
+  GROUP_SET: (m) => isStr(m.requestedBy) && isStrOrNull(m.group),
+  PROMPT_RESOLVE: (m) => isStr(m.requestedBy) && isStr(m.promptId) && isBool(m.drink),
+  GAME_START: (m) => isStr(m.requestedBy),
+  GAME_CONTINUE: (m) => isStr(m.requestedBy),
+  GAME_NEW: (m) => isStr(m.requestedBy),
+  HOST_TRANSFER: (m) => isStr(m.requestedBy) && isStr(m.to),
+  SET_MAX_PLAYERS: (m) => isStr(m.requestedBy) && isNum(m.max),
+  SEATS_SET: (m) => isStr(m.requestedBy) && isStrArr(m.seats),
+  DIRECTION_REVERSE: (m) => isStr(m.requestedBy),
+  HELLO: (m) => isStr(m.requestedBy) && (m.name === undefined || (isStr(m.name) && m.name.length <= MAX_NAME)),
+  SYNC_REQUEST: (m) => isStr(m.requestedBy) && isNum(m.haveRev),
+  SYNC_RESPONSE: (m) => isStrOrNull(m.host) && (m.data === null || isGameState(m.data)),
+};
+
+// Returns a reason when `x` is not a well-formed wire Msg.
+export function validateMsg(x: any): string | null {
+  if (!isObj(x) || !isStr(x.type)) return "Missing message type.";
+  const check = WIRE[x.type as Msg["type"]];
+  if (!check) return `Unknown message type "${x.type}".`;
+  if (!check(x)) return `Malformed ${x.type}.`;
+  return null;
+}
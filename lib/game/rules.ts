@@ -0,0 +1,136 @@
+/* lib/game/rules.ts */
+
+import { RANKS, parseCard } from "./cards";
+import type { Mechanic, RankRule, RuleSet } from "./types";
+
+/* =========================
+   BUILT-INS
+========================= */
+
+export const MECHANICS: { id: Mechanic; label: string }[] = [
+  { id: "none", label: "None (just the text)" },
+  { id: "waterfall", label: "Waterfall" },
+  { id: "heaven", label: "Power: Heaven" },
+  { id: "thumb", label: "Power: Thumb" },
+  { id: "qm", label: "Question Master" },
+  { id: "king", label: "King (make a rule)" },
+  { id: "target", label: "Pick a target" },
+  { id: "mate", label: "Pick a mate" },
+  { id: "self", label: "Drawer drinks" },
+  { id: "group", label: "A group drinks" },
+  { id: "everyone", label: "Everyone drinks" },
+  { id: "round", label: "Go-around round (rhyme, categories…)" },
+];
+
+export const MAX_LABEL = 24;
+export const MAX_TEXT = 200;
+export const MAX_GROUP = 16;
+
+// The rules this table always played with.
+export const CLASSIC_RULES: RuleSet = {
+  name: "Classic",
+  ranks: {
+    A: {
+      label: "Waterfall",
+      text: "Drawer starts it; random 5–20s; goes round the seats in turn direction; deck locked while pending/active.",
+      mechanic: "waterfall",
+    },
+    "2": { label: "You", text: "You choose someone to drink.", mechanic: "target" },
+    "3": { label: "Me", text: "You drink.", mechanic: "self" },
+    "4": { label: "Whores", text: "Girls drink.", mechanic: "group", group: "girls" },
+    "5": { label: "Guys", text: "Guys drink.", mechanic: "group", group: "guys" },
+    "6": { label: "Dicks", text: "Kyle’sADick (everyone drinks).", mechanic: "everyone" },
+    "7": {
+      label: "Heaven",
+      text: "Holder can start anytime; last to tap loses; holder stays until next 7.",
+      mechanic: "heaven",
+    },
+    "8": {
+      label: "Mate",
+      text: "Pick a mate; you drink whenever they do (and the other way round).",
+      mechanic: "mate",
+    },
+    "9": {
+      label: "Rhyme",
+      text: "Drawer says a word; go round the seats rhyming with it. First to fail loses.",
+      mechanic: "round",
+    },
+    "10": {
+      label: "Categories",
+      text: "Drawer names a category; go round the seats naming things in it. First to fail loses.",
+      mechanic: "round",
+    },
+    J: {
+      label: "Thumb",
+      text: "Holder can start anytime; last to tap loses; holder stays until next Jack.",
+      mechanic: "thumb",
+    },
+    Q: {
+      label: "Question Master",
+      text: "If you answer, QM can tag you (tracked). QM stays until next Q.",
+      mechanic: "qm",
+    },
+    K: {
+      label: "King",
+      text: "Make a rule. King can add rules (persist until removed). King stays until next K.",
+      mechanic: "king",
+    },
+  },
+};
+
+/* =========================
+   LOOKUP
+========================= */
+
+export function ruleFor(rules: RuleSet, card: string | null): RankRule | null {
+  if (!card) return null;
+  return rules.ranks[parseCard(card).rank] ?? null;
+}
+
+export function ruleForCard(card: string | null, rules: RuleSet = CLASSIC_RULES): string {
+  if (!card) return "Draw to start.";
+  const rule = ruleFor(rules, card);
+  if (!rule) return "House rules.";
+  return `${parseCard(card).rank} = ${rule.label}. ${rule.text}`;
+}
+
+/* =========================
+   VALIDATION
+========================= */
+
+const isMechanic = (x: any): x is Mechanic => MECHANICS.some((m) => m.id === x);
+
+// Group tags compare lowercased; empty means none.
+export function cleanGroup(x: unknown): string | undefined {
+  if (typeof x !== "string") return undefined;
+  return x.trim().toLowerCase().slice(0, MAX_GROUP) || undefined;
+}
+
+// Tags the rules can prompt, for pickers.
+export function groupsIn(rules: RuleSet): string[] {
+  const all = Object.values(rules.ranks).map((r) => (r.mechanic === "group" ? r.group : undefined));
+  return Array.from(new Set(all.filter((g): g is string => !!g)));
+}
+
+// Cleans a rule set from the wire or a pasted preset; null when it is unusable.
+// Ranks it leaves out keep the classic rule.
+export function sanitizeRules(x: any): RuleSet | null {
+  if (!x || typeof x !== "object" || !x.ranks || typeof x.ranks !== "object") return null;
+
+  const ranks: Record<string, RankRule> = {};
+  for (const rank of RANKS) {
+    const r = x.ranks[rank];
+    const fallback = CLASSIC_RULES.ranks[rank];
+    if (r !== undefined && (typeof r !== "object" || r === null)) return null;
+    const mechanic = isMechanic(r?.mechanic) ? r.mechanic : fallback.mechanic;
+    ranks[rank] = {
+      label: (typeof r?.label === "string" && r.label.trim().slice(0, MAX_LABEL)) || fallback.label,
+      text: typeof r?.text === "string" ? r.text.trim().slice(0, MAX_TEXT) : fallback.text,
+      mechanic,
+    };
+    if (mechanic === "group") ranks[rank].group = r ? cleanGroup(r.group) : fallback.group;
+  }
+
+  const name = (typeof x.name === "string" && x.name.trim().slice(0, MAX_LABEL)) || "House rules";
+  return { name, ranks };
+}
@@ -0,0 +1,25 @@
+/* lib/game/sync.ts */
+
+import type { GameState } from "./types";
+
+/* =========================
+   REVISIONS
+========================= */
+
+export type RevCheck = "apply" | "stale" | "gap";
+
+// Host only: every state it broadcasts gets the next revision.
+export function stamp(prev: GameState, next: GameState): GameState {
+  return { ...next, rev: (prev.rev || 0) + 1 };
+}
+
+// How an (already authorized) incoming STATE relates to what we hold.
+export function checkRev(current: GameState, incoming: GameState): RevCheck {
+  // different game or a new host: their counter is the one that matters now
+  if (!current.gameId || incoming.gameId !== current.gameId) return "apply";
+  if (incoming.host !== current.host) return "apply";
+
+  if (incoming.rev <= current.rev) return "stale";
+  if (incoming.rev > current.rev + 1) return "gap";
+  return "apply";
+}
@@ -0,0 +1,272 @@
+/* lib/game/types.ts */
+
+/* =========================
+   PLAYERS
+========================= */
+
+export type PlayerStats = {
+  name: string; // display name; the record key is the identity
+  drinks: number; // derived: sum of their live drinkLog entries
+  cardsDrawn: number;
+
+  // tracked events (no auto-drinks)
+  qmCaught: number; // times they were caught answering QM
+  powerLosses: number; // last-to-tap losses (heaven/thumb)
+  roundLosses: number; // first to fail a rhyme/categories round
+
+  group?: string; // optional tag the player picks (e.g. "girls"); "group" cards prompt everyone with it
+};
+
+/* =========================
+   MECHANICS
+========================= */
+
+export type PowerKind = "heaven" | "thumb";
+
+export type Direction = "clockwise" | "counterclockwise";
+
+export type Holder = "heaven" | "thumb" | "qm" | "king";
+
+// What drawing a rank does beyond showing its text.
+export type Mechanic =
+  | "none"
+  | "waterfall"
+  | Holder
+  | "target"
+  | "mate"
+  | "self"
+  | "group"
+  | "everyone"
+  | "round";
+
+export type RankRule = {
+  label: string;
+  text: string;
+  mechanic: Mechanic;
+  group?: string; // "group" mechanic: which players' tag it hits
+};
+
+// The table's house rules: one entry per rank ("A", "2" … "K").
+export type RuleSet = {
+  name: string;
+  ranks: Record<string, RankRule>;
+};
+
+// A "target" or "mate" card: the drawer names who it's for.
+export type TargetPick = {
+  drawer: string;
+  rank: string;
+  mechanic: "target" | "mate";
+  target: string | null; // set once, when they pick
+};
+
+export type PowerRound = {
+  kind: PowerKind;
+  active: boolean;
+  startedBy: string; // holder who started it
+  eligible: string[]; // snapshot at start
+  tapped: string[]; // order of taps; last = loser
+  loser: string | null;
+  startedAt: number;
+};
+
+export type WaterfallState =
+  | null
+  | {
+      phase: "pending" | "active";
+      drawer: string;
+      durationSec: number; // random 5-20
+      startedAt: number | null; // set on start
+      direction: Direction;
+      order: string[]; // who follows whom, drawer first, in `direction`
+    };
+
+// Rhyme / Categories: the drawer sets the word, then it goes round the seats until someone fails.
+export type GoRound = {
+  phase: "pending" | "active" | "done";
+  rank: string;
+  label: string; // the rule's label, e.g. "Rhyme"
+  drawer: string;
+  word: string | null; // set on start
+  order: string[]; // drawer first, in turn direction
+  index: number; // order[index] is up
+  turnSec: number;
+  turnStartedAt: number | null;
+  passes: number;
+  loser: string | null; // first to fail; null if the round fizzled out
+};
+
+// One line of the drink ledger; undone entries stay for the record but stop counting.
+export type DrinkEntry = {
+  id: string;
+  who: string;
+  delta: number;
+  reason: string;
+  by: string; // who logged it (the drinker, or the host)
+  at: number;
+  undoneBy?: string;
+  linkedTo?: string; // a mate's copy: id of the entry it follows (undone with it)
+};
+
+// A card says someone drinks; it waits until they confirm (or the host drops it).
+export type DrinkPrompt = {
+  id: string;
+  who: string;
+  reason: string; // e.g. "6♠ · Dicks"
+  at: number;
+};
+
+export type KingRule = {
+  id: string;
+  text: string;
+  by: string;
+  createdAt: number;
+};
+
+// Commit-reveal for one shuffle: `commit` = sha256(seed) is public from the start,
+// the seed only once that deck is used up.
+export type ShuffleCommit = {
+  commit: string;
+  seed: string | null; // private until revealed
+  gone: string[]; // cards already out of the deck when it was shuffled (host migration)
+  drawn: string[]; // drawn from this shuffle, in order
+};
+
+// lobby: seating up, no draws yet; finished: the deck ran out.
+export type GamePhase = "lobby" | "playing" | "finished";
+
+export type KingsCup = {
+  drinker: string; // drew the fourth king
+  at: number;
+};
+
+/* =========================
+   EVENT LOG
+========================= */
+
+export type EventBody =
+  | { kind: "draw"; by: string; drawer: string; card: string | null }
+  | { kind: "holder"; holder: Holder; from: string | null; to: string | null }
+  | { kind: "power_start"; power: PowerKind; by: string; eligible: string[] }
+  | { kind: "power_end"; power: PowerKind; tapped: string[]; loser: string | null } // tapped in order
+  | { kind: "power_clear"; power: PowerKind; by: string }
+  | { kind: "waterfall_start"; by: string; durationSec: number; order: string[] }
+  | { kind: "waterfall_end"; drawer: string; cancelled: boolean }
+  | { kind: "qm_caught"; by: string; target: string }
+  | { kind: "king_rule"; by: string; text: string; removed: boolean }
+  | { kind: "drink"; by: string; who: string; delta: number; reason: string; entryId: string }
+  | { kind: "drink_undo"; by: string; who: string; delta: number; entryId: string }
+  | { kind: "target_pick"; by: string; target: string; rank: string }
+  | { kind: "rules"; by: string; name: string }
+  | { kind: "mate"; by: string; mate: string }
+  | { kind: "prompt"; who: string[]; reason: string }
+  | { kind: "round_start"; by: string; label: string; word: string; order: string[] }
+  | { kind: "round_mark"; by: string | null; who: string; ok: boolean } // by: null when time ran out
+  | { kind: "round_end"; label: string; word: string; passes: number; loser: string | null }
+  | { kind: "prompt_dismiss"; by: string; who: string; reason: string }
+  | { kind: "mates_clear"; by: string | null } // null: the game ended
+  | { kind: "phase"; phase: GamePhase; by: string | null } // by: null when the deck ended it
+  | { kind: "kings_cup"; drinker: string }
+  | { kind: "reshuffle"; by: string }
+  | { kind: "join" | "leave"; who: string }
+  | { kind: "host"; from: string | null; to: string };
+
+// One line of the game's history. Append-only; `seq` counts up from 1.
+export type GameEvent = { seq: number; at: number } & EventBody;
+
+/* =========================
+   GAME STATE
+========================= */
+
+export type GameState = {
+  gameId: string | null; // new id per fresh deck/host claim
+  rev: number; // bumped by the host on every change it broadcasts
+
+  host: string | null;
+  phase: GamePhase;
+  deck: string[]; // private: real order only on the host, [] in broadcasts
+  deckCount: number; // public
+  drawn: string[]; // public: cards drawn since the last shuffle, oldest first
+  shuffleCommit: ShuffleCommit | null; // current deck
+  revealed: ShuffleCommit[]; // finished decks, newest first
+  currentCard: string | null;
+  kingsDrawn: number; // this deck; the fourth is the King's Cup
+  kingsCup: KingsCup | null;
+
+  turn: string | null;
+  lastDrawBy: string | null;
+
+  players: Record<string, PlayerStats>;
+  away: Record<string, PlayerStats>; // stats of players who dropped, restored when they rejoin
+  maxPlayers: number; // seats at the table; anyone past it can only watch
+  seats: string[]; // seating order, clockwise; players who drop keep theirs
+  direction: Direction; // which way turns (and waterfalls) go round
+
+  // badges / holders
+  heavenHolder: string | null; // 7
+  thumbHolder: string | null; // J
+  qmHolder: string | null; // Q (Question Master)
+  kingHolder: string | null; // K
+
+  powerRound: PowerRound | null;
+  waterfall: WaterfallState;
+  goRound: GoRound | null; // until the next draw; locks the deck while it runs
+  kingRules: KingRule[];
+  drinkLog: DrinkEntry[]; // oldest first; `players[].drinks` is derived from it
+  rules: RuleSet; // house rules per rank; the host edits them
+  targetPick: TargetPick | null; // until the next draw
+  mates: [string, string][]; // drink together; chains count, so links form groups
+  prompts: DrinkPrompt[]; // card-triggered drinks waiting for their drinker
+  events: GameEvent[]; // oldest first, never edited
+};
+
+/* =========================
+   MESSAGES
+========================= */
+
+export type Msg =
+  | { type: "STATE"; data: GameState }
+  | { type: "DRAW"; requestedBy: string; onBehalfOf?: string } // onBehalfOf: host override
+  | { type: "DRINK_ADD"; requestedBy: string; who: string; delta: number; reason: string }
+  | { type: "DRINK_UNDO"; requestedBy: string; entryId: string }
+  | { type: "POWER_START"; kind: PowerKind; requestedBy: string }
+  | { type: "POWER_TAP"; kind: PowerKind; by: string }
+  | { type: "POWER_CLEAR"; requestedBy: string }
+  | { type: "WATERFALL_START"; requestedBy: string }
+  | { type: "WATERFALL_TICK" }
+  | { type: "ROUND_START"; requestedBy: string; word: string }
+  | { type: "ROUND_MARK"; requestedBy: string; ok: boolean } // pass / fail for whoever is up
+  | { type: "ROUND_TICK" }
+  | { type: "QM_CAUGHT"; requestedBy: string; target: string }
+  | { type: "KING_ADD_RULE"; requestedBy: string; text: string }
+  | { type: "KING_REMOVE_RULE"; requestedBy: string; ruleId: string }
+  | { type: "TARGET_PICK"; requestedBy: string; target: string }
+  | { type: "RULES_SET"; requestedBy: string; rules: RuleSet }
+  | { type: "MATES_CLEAR"; requestedBy: string }
+  | { type: "GROUP_SET"; requestedBy: string; group: string | null }
+  | { type: "PROMPT_RESOLVE"; requestedBy: string; promptId: string; drink: boolean } // drink: false = host drops it
+  | { type: "GAME_START"; requestedBy: string }
+  | { type: "GAME_CONTINUE"; requestedBy: string } // finished: reshuffle and play on
+  | { type: "GAME_NEW"; requestedBy: string } // back to the lobby, same table, fresh stats
+  | { type: "PLAYER_JOIN"; id: string; name?: string }
+  | { type: "PLAYER_LEAVE"; id: string }
+  | { type: "HOST_CLAIM"; by: string; name?: string }
+  | { type: "HOST_MIGRATE"; to: string }
+  | { type: "HOST_TRANSFER"; requestedBy: string; to: string } // the host hands over on purpose
+  | { type: "SET_MAX_PLAYERS"; requestedBy: string; max: number }
+  | { type: "SEATS_SET"; requestedBy: string; seats: string[] }
+  | { type: "DIRECTION_REVERSE"; requestedBy: string }
+  | { type: "HELLO"; requestedBy: string; name?: string } // late joiner: who hosts here?
+  | { type: "SYNC_REQUEST"; requestedBy: string; haveRev: number }
+  | { type: "SYNC_RESPONSE"; host: string | null; data: GameState | null }; // data only from the host
+
+/* =========================
+   ENGINE CONTEXT
+========================= */
+
+// Everything non-deterministic the rules need. Inject fixed sources to replay a game.
+export type EngineCtx = {
+  random: () => number; // [0, 1)
+  now: () => number; // epoch ms
+  seed: () => string; // fresh shuffle seed; fix it to reproduce a deck
+};
@@ -0,0 +1,58 @@
+/* lib/net/livekit.ts */
+
+import { Participant, Room, RoomEvent } from "livekit-client";
+
+import type { PeerInfo, Transport, TransportEvents } from "./transport";
+
+// Spectator tokens are issued without canPublishData (see /api/token).
+function peerInfo(p: Participant): PeerInfo {
+  return { name: p.name || undefined, spectator: p.permissions ? !p.permissions.canPublishData : false };
+}
+
+// Data + presence over an existing LiveKit Room (media stays with the caller).
+export function createLiveKitTransport(
+  room: Room,
+  url: string,
+  token: string,
+  self: string,
+  events: TransportEvents
+): Transport {
+  room.on(RoomEvent.ParticipantConnected, (p) => events.onPeerJoin(p.identity, peerInfo(p)));
+  room.on(RoomEvent.ParticipantDisconnected, (p) => events.onPeerLeave(p.identity));
+  room.on(RoomEvent.DataReceived, (payload, participant) => events.onData(payload, participant?.identity ?? null));
+  room.on(RoomEvent.Reconnecting, () => events.onReconnecting());
+  room.on(RoomEvent.Reconnected, () => events.onReconnected());
+  room.on(RoomEvent.Disconnected, () => events.onClose());
+
+  return {
+    kind: "livekit",
+    self,
+
+    async connect() {
+      await room.connect(url, token);
+      // people already in the room never fire ParticipantConnected
+      room.remoteParticipants.forEach((p) => events.onPeerJoin(p.identity, peerInfo(p)));
+    },
+
+    disconnect() {
+      room.disconnect();
+    },
+
+    async send(payload, to) {
+      await room.localParticipant.publishData(new Uint8Array(payload), { reliable: true, destinationIdentities: to });
+    },
+
+    peers() {
+      return Array.from(room.remoteParticipants.keys());
+    },
+
+    info(id) {
+      const p = room.getParticipantByIdentity(id);
+      return p ? peerInfo(p) : null;
+    },
+
+    joinedAt(id) {
+      return room.getParticipantByIdentity(id)?.joinedAt?.getTime() ?? null;
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/* lib/net/local.ts */
+
+import type { PeerInfo, Transport, TransportEvents } from "./transport";
+
+/* =========================
+   TYPES
+========================= */
+
+// Anything shaped like a BroadcastChannel (tests can pass an in-memory one).
+export type ChannelLike = Pick<BroadcastChannel, "postMessage" | "onmessage" | "close">;
+
+type Frame =
+  | { kind: "hello"; from: string; info: PeerInfo; joinedAt: number }
+  | { kind: "here"; from: string; info: PeerInfo; joinedAt: number }
+  | { kind: "bye"; from: string }
+  | { kind: "data"; from: string; to?: string[]; payload: Uint8Array };
+
+const HEARTBEAT_MS = 2000;
+const PEER_TIMEOUT_MS = 6000;
+
+/* =========================
+   TRANSPORT
+========================= */
+
+// Same-device play: every tab on this origin with the same room name is a peer. No media.
+export function createLocalTransport(
+  roomName: string,
+  self: string,
+  info: PeerInfo,
+  events: TransportEvents,
+  channel: ChannelLike = new BroadcastChannel(`kad-kings:${roomName}`)
+): Transport {
+  const joined = Date.now();
+  const peers = new Map<string, { joinedAt: number; seenAt: number; info: PeerInfo }>();
+  let beat: ReturnType<typeof setInterval> | null = null;
+
+  function post(frame: Frame) {
+    channel.postMessage(frame);
+  }
+
+  function seen(id: string, peer: PeerInfo, joinedAt: number) {
+    const known = peers.has(id);
+    peers.set(id, { joinedAt, seenAt: Date.now(), info: peer });
+    if (!known) events.onPeerJoin(id, peer);
+  }
+
+  function drop(id: string) {
+    if (!peers.delete(id)) return;
+    events.onPeerLeave(id);
+  }
+
+  channel.onmessage = (ev) => {
+    const f = ev.data as Frame;
+    if (!f || f.from === self) return;
+
+    if (f.kind === "hello") {
+      seen(f.from, f.info, f.joinedAt);
+      post({ kind: "here", from: self, info, joinedAt: joined });
+      return;
+    }
+    if (f.kind === "here") {
+      seen(f.from, f.info, f.joinedAt);
+      return;
+    }
+    if (f.kind === "bye") {
+      drop(f.from);
+      return;
+    }
+    if (f.kind === "data") {
+      if (f.to && !f.to.includes(self)) return;
+      if (peers.get(f.from)?.info.spectator) return; // same rule LiveKit enforces with grants
+      events.onData(new Uint8Array(f.payload), f.from);
+    }
+  };
+
+  return {
+    kind: "local",
+    self,
+
+    async connect() {
+      post({ kind: "hello", from: self, info, joinedAt: joined });
+
+      beat = setInterval(() => {
+        post({ kind: "here", from: self, info, joinedAt: joined });
+        const now = Date.now();
+        peers.forEach((p, id) => {
+          if (now - p.seenAt > PEER_TIMEOUT_MS) drop(id);
+        });
+      }, HEARTBEAT_MS);
+
+      // give tabs already open a moment to answer before the game decides who hosts
+      await new Promise((r) => setTimeout(r, 300));
+    },
+
+    disconnect() {
+      if (beat) clearInterval(beat);
+      beat = null;
+      post({ kind: "bye", from: self });
+      channel.onmessage = null;
+      channel.close();
+      events.onClose();
+    },
+
+    async send(payload, to) {
+      if (info.spectator) return;
+      post({ kind: "data", from: self, to, payload });
+    },
+
+    peers() {
+      return Array.from(peers.keys());
+    },
+
+    info(id) {
+      return peers.get(id)?.info ?? null;
+    },
+
+    joinedAt(id) {
+      if (id === self) return joined;
+      return peers.get(id)?.joinedAt ?? null;
+    },
+  };
+}
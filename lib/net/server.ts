@@ -0,0 +1,106 @@
+/* lib/net/server.ts */
+
+import { PROTOCOL_VERSION } from "../game/protocol";
+import type { GameState, Msg } from "../game/types";
+
+/* =========================
+   TYPES
+========================= */
+
+// Client side of the server-authoritative rooms (app/api/game/[room]/*).
+export type ServerGame = {
+  act: (msg: Msg) => Promise<GameState>;
+  poll: (have: GameState) => Promise<GameState | null>; // null = nothing new
+};
+
+/* =========================
+   CLIENT
+========================= */
+
+export function createServerGame(room: string, token: string): ServerGame {
+  const base = `/api/game/${encodeURIComponent(room)}`;
+  const headers = { authorization: `Bearer ${token}` };
+
+  async function read(res: Response): Promise<GameState> {
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(data?.error || `Game API failed (${res.status})`);
+    return data.state as GameState;
+  }
+
+  return {
+    async act(msg) {
+      const res = await fetch(`${base}/action`, {
+        method: "POST",
+        headers: { ...headers, "content-type": "application/json" },
+        body: JSON.stringify({ v: PROTOCOL_VERSION, msg }),
+      });
+      return read(res);
+    },
+
+    async poll(have) {
+      const q = `since=${have.rev}&game=${encodeURIComponent(have.gameId || "")}`;
+      const res = await fetch(`${base}/state?${q}`, { headers, cache: "no-store" });
+      if (res.status === 204 || res.status === 404) return null;
+      return read(res);
+    },
+  };
+}
+
+/* =========================
+   ROOM ADMIN (host)
+========================= */
+
+export type RoomAccessInfo = { password: boolean; locked: boolean };
+
+// Host tools behind app/api/game/[room]/{access,invite,lock,kick,mute}; the server re-checks host status.
+export type RoomAdmin = {
+  info: () => Promise<RoomAccessInfo>;
+  setPassword: (password: string | null) => Promise<RoomAccessInfo>;
+  setLocked: (locked: boolean) => Promise<RoomAccessInfo>;
+  setOwner: (identity: string) => Promise<RoomAccessInfo>;
+  createInvite: (ttlMinutes: number) => Promise<{ invite: string; expiresAt: number }>;
+  kick: (identity: string) => Promise<void>;
+  mute: (identity: string) => Promise<number>; // tracks muted
+};
+
+export function createRoomAdmin(room: string, token: string): RoomAdmin {
+  const base = `/api/game/${encodeURIComponent(room)}`;
+
+  async function post(path: string, body: unknown) {
+    const res = await fetch(`${base}/${path}`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(data?.error || `Room API failed (${res.status})`);
+    return data;
+  }
+
+  return {
+    async info() {
+      const res = await fetch(`${base}/access`, { headers: { authorization: `Bearer ${token}` }, cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || `Room API failed (${res.status})`);
+      return data;
+    },
+    async setPassword(password) {
+      return post("access", { password });
+    },
+    async setLocked(locked) {
+      return post("lock", { locked });
+    },
+    async setOwner(identity) {
+      return post("access", { owner: identity });
+    },
+    async createInvite(ttlMinutes) {
+      return post("invite", { ttlMinutes });
+    },
+    async kick(identity) {
+      await post("kick", { identity });
+    },
+    async mute(identity) {
+      return (await post("mute", { identity })).muted;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/* lib/net/transport.ts */
+
+/* =========================
+   TYPES
+========================= */
+
+// What a transport knows about a peer beyond its identity.
+export type PeerInfo = {
+  name?: string; // display name
+  spectator?: boolean; // watch-only: can't send data, never takes a seat
+};
+
+// Callbacks a transport drives; identities are whatever the transport authenticates.
+export type TransportEvents = {
+  onData: (payload: Uint8Array, sender: string | null) => void;
+  onPeerJoin: (id: string, info: PeerInfo) => void;
+  onPeerLeave: (id: string) => void;
+  onReconnecting: () => void; // link dropped, transport is retrying
+  onReconnected: () => void; // messages may have been missed meanwhile
+  onClose: () => void;
+};
+
+export type Transport = {
+  kind: "livekit" | "local";
+  self: string;
+
+  connect: () => Promise<void>;
+  disconnect: () => void;
+
+  // `to` limits delivery to those identities (default: everyone)
+  send: (payload: Uint8Array, to?: string[]) => Promise<void>;
+
+  peers: () => string[]; // remote identities currently connected
+  info: (id: string) => PeerInfo | null; // as the transport vouches for it (LiveKit: from the token)
+  joinedAt: (id: string) => number | null; // epoch ms, self included
+};
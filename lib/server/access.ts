@@ -0,0 +1,193 @@
+/* lib/server/access.ts */
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+import type { Caller } from "./auth";
+import { getEnv } from "./env";
+import { listMembers } from "./livekit";
+import { getRoomStore, getStore } from "./store";
+
+/* =========================
+   TYPES
+========================= */
+
+export type RoomMode = "p2p" | "server";
+
+// Who may join a room. `owner` is the peer-to-peer host as last recorded here (server mode has its own).
+export type RoomAccess = {
+  owner: string;
+  mode: RoomMode; // set by whoever opens the empty room
+  passwordHash: string | null; // "salt:hash", scrypt
+  locked: boolean; // no new joins; `members` may still come back
+  members: string[];
+  banned: Record<string, number>; // kicked identity -> until (ms)
+};
+
+export type Admission = { ok: true } | { ok: false; error: string; needsPassword: boolean };
+
+const MAX_INVITE_MS = 7 * 24 * 60 * 60 * 1000;
+const BAN_MS = 6 * 60 * 60 * 1000; // as long as the token a kicked player already holds
+
+function accessStore() {
+  return getRoomStore<RoomAccess>("access");
+}
+
+async function update(room: string, owner: string, patch: Partial<RoomAccess>) {
+  const current = await accessStore().get(room);
+  await accessStore().put(room, {
+    owner: current?.owner || owner,
+    mode: "p2p",
+    passwordHash: null,
+    locked: false,
+    members: [],
+    banned: {},
+    ...current,
+    ...patch,
+  });
+}
+
+function secret(): string {
+  return getEnv("LIVEKIT_API_SECRET");
+}
+
+function isBanned(access: RoomAccess | null, identity: string): boolean {
+  return (access?.banned?.[identity] ?? 0) > Date.now();
+}
+
+function sameText(a: string, b: string): boolean {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+/* =========================
+   PASSWORDS
+========================= */
+
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("base64url");
+  return `${salt}:${scryptSync(password, salt, 32).toString("base64url")}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  return sameText(scryptSync(password, salt, 32).toString("base64url"), hash);
+}
+
+/* =========================
+   INVITES
+========================= */
+
+// `<base64url {room, exp}>.<hmac>`: anyone holding it may join `room` until `exp`, password or not.
+export function signInvite(room: string, ttlMs: number): { invite: string; expiresAt: number } {
+  const expiresAt = Date.now() + Math.min(Math.max(ttlMs, 60_000), MAX_INVITE_MS);
+  const body = Buffer.from(JSON.stringify({ room, exp: expiresAt })).toString("base64url");
+  const sig = createHmac("sha256", secret()).update(`invite:${body}`).digest("base64url");
+  return { invite: `${body}.${sig}`, expiresAt };
+}
+
+function checkInvite(invite: string, room: string): boolean {
+  const [body, sig] = invite.split(".");
+  if (!body || !sig) return false;
+  if (!sameText(createHmac("sha256", secret()).update(`invite:${body}`).digest("base64url"), sig)) return false;
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    return claims?.room === room && typeof claims.exp === "number" && claims.exp > Date.now();
+  } catch {
+    return false;
+  }
+}
+
+/* =========================
+   ROOM API
+========================= */
+
+// Checked by the token route before any grant is issued. `identity` is the one the caller proved it owns.
+export async function admit(room: string, password: string, invite: string, identity: string): Promise<Admission> {
+  const access = await accessStore().get(room);
+  if (isBanned(access, identity)) return { ok: false, error: "You were removed from this room.", needsPassword: false };
+  if (access?.locked && !access.members.includes(identity)) return { ok: false, error: "This room is locked.", needsPassword: false };
+  if (!access?.passwordHash) return { ok: true };
+  if (invite && checkInvite(invite, room)) return { ok: true };
+  if (!password) return { ok: false, error: "This room needs a password or an invite link.", needsPassword: true };
+  if (!checkPassword(password, access.passwordHash)) {
+    return { ok: false, error: "Wrong room password.", needsPassword: true };
+  }
+  return { ok: true };
+}
+
+// The first one into an empty room picks peer-to-peer or server mode and owns it (room names get reused);
+// everyone after plays along. Returns the room's mode, which may not be the one asked for.
+export async function openRoom(room: string, identity: string, mode: RoomMode): Promise<RoomMode> {
+  const access = await accessStore().get(room);
+  const occupied = (await listMembers(room)).length > 0;
+  if (occupied && access?.mode) return access.mode;
+
+  await update(room, identity, occupied ? { mode } : { mode, owner: identity });
+  return mode;
+}
+
+export async function roomMode(room: string): Promise<RoomMode> {
+  return (await accessStore().get(room))?.mode ?? "p2p";
+}
+
+// Checked on every server-mode action: a kicked player's token outlives the kick.
+export async function isRemoved(room: string, identity: string): Promise<boolean> {
+  return isBanned(await accessStore().get(room), identity);
+}
+
+// Server mode: the game's host. Peer-to-peer: the recorded owner while connected, else the earliest
+// joiner (the same pick electHost makes on the clients). A server game left in a peer-to-peer room
+// says nothing about who hosts it now.
+export async function roomHost(room: string): Promise<string | null> {
+  const access = await accessStore().get(room);
+  if (access?.mode === "server") {
+    const game = await getStore().get(room);
+    if (game?.host) return game.host;
+  }
+
+  const members = (await listMembers(room)).filter((m) => !m.spectator);
+  if (access?.owner && members.some((m) => m.identity === access.owner)) return access.owner;
+
+  const sorted = members.sort((a, b) => a.joinedAt - b.joinedAt || a.identity.localeCompare(b.identity));
+  return sorted[0]?.identity ?? null;
+}
+
+export async function canConfigure(caller: Caller): Promise<boolean> {
+  if (caller.spectator) return false;
+  return (await roomHost(caller.room)) === caller.identity;
+}
+
+export async function accessOf(room: string): Promise<{ password: boolean; locked: boolean }> {
+  const access = await accessStore().get(room);
+  return { password: !!access?.passwordHash, locked: !!access?.locked };
+}
+
+// null clears the password.
+export async function setPassword(caller: Caller, password: string | null) {
+  await update(caller.room, caller.identity, { passwordHash: password ? hashPassword(password) : null });
+}
+
+// Whoever is in the room when it locks may still rejoin (e.g. after a refresh).
+export async function setLocked(caller: Caller, locked: boolean) {
+  const members = locked ? (await listMembers(caller.room)).map((m) => m.identity) : [];
+  await update(caller.room, caller.identity, { locked, members: [...new Set([caller.identity, ...members])] });
+}
+
+// Peer-to-peer host transfer: moderation rights follow the game's host.
+export async function setOwner(caller: Caller, owner: string) {
+  await update(caller.room, caller.identity, { owner });
+}
+
+// Kicked: off the locked room's list and no new tokens (or server actions) until the ban runs out.
+export async function removeFromRoom(caller: Caller, identity: string) {
+  const access = await accessStore().get(caller.room);
+  const now = Date.now();
+  const banned = Object.fromEntries(Object.entries(access?.banned ?? {}).filter(([, until]) => until > now));
+  await update(caller.room, caller.identity, {
+    members: (access?.members ?? []).filter((m) => m !== identity),
+    banned: { ...banned, [identity]: now + BAN_MS },
+  });
+}
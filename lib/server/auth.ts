@@ -0,0 +1,24 @@
+/* lib/server/auth.ts */
+
+import { TokenVerifier } from "livekit-server-sdk";
+
+import { getEnv } from "./env";
+
+export type Caller = { identity: string; name: string; room: string; spectator: boolean };
+
+// The LiveKit token a client joined with doubles as its API credential.
+export async function verifyCaller(authHeader: string | null, room: string): Promise<Caller | null> {
+  const token = (authHeader || "").replace(/^Bearer\s+/i, "").trim();
+  if (!token) return null;
+
+  try {
+    const verifier = new TokenVerifier(getEnv("LIVEKIT_API_KEY"), getEnv("LIVEKIT_API_SECRET"));
+    const claims = await verifier.verify(token);
+    const identity = claims.sub || "";
+    if (!identity || claims.video?.room !== room) return null;
+    const spectator = claims.video?.canPublishData === false;
+    return { identity, name: claims.name || identity, room, spectator };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,7 @@
+/* lib/server/env.ts */
+
+export function getEnv(name: string): string {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing environment variable: ${name}`);
+  return v;
+}
@@ -0,0 +1,26 @@
+/* lib/server/identity.ts */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+import { getEnv } from "./env";
+
+/* =========================
+   IDENTITIES
+========================= */
+
+// Stable per device, never shown: display names live on the participant, not in the identity.
+export function newIdentity(): string {
+  return `p_${randomBytes(9).toString("base64url")}`;
+}
+
+// Proof that we issued `identity`, so a client can keep it across tokens without picking someone else's.
+export function claimFor(identity: string): string {
+  return createHmac("sha256", getEnv("LIVEKIT_API_SECRET")).update(`identity:${identity}`).digest("base64url");
+}
+
+export function checkClaim(identity: string, claim: string): boolean {
+  if (!identity || !claim) return false;
+  const want = Buffer.from(claimFor(identity));
+  const got = Buffer.from(claim);
+  return want.length === got.length && timingSafeEqual(want, got);
+}
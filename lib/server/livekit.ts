@@ -0,0 +1,46 @@
+/* lib/server/livekit.ts */
+
+import { RoomServiceClient } from "livekit-server-sdk";
+
+import { getEnv } from "./env";
+
+/* =========================
+   ROOM SERVICE
+========================= */
+
+export type RoomMember = { identity: string; joinedAt: number; spectator: boolean };
+
+let client: RoomServiceClient | null = null;
+
+// The Twirp API lives on the same host as the signalling socket.
+export function roomService(): RoomServiceClient {
+  if (client) return client;
+  const host = getEnv("LIVEKIT_URL").replace(/^ws(s?):\/\//i, "http$1://");
+  client = new RoomServiceClient(host, getEnv("LIVEKIT_API_KEY"), getEnv("LIVEKIT_API_SECRET"));
+  return client;
+}
+
+// Everyone connected right now; an empty list when the room doesn't exist yet.
+export async function listMembers(room: string): Promise<RoomMember[]> {
+  try {
+    const list = await roomService().listParticipants(room);
+    return list.map((p) => ({
+      identity: p.identity,
+      joinedAt: Number(p.joinedAt) * 1000,
+      spectator: p.permission ? !p.permission.canPublishData : false,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export async function removeMember(room: string, identity: string) {
+  await roomService().removeParticipant(room, identity);
+}
+
+// Mutes everything they publish right now; they can unmute themselves (kick if that's a problem).
+export async function muteMember(room: string, identity: string): Promise<number> {
+  const p = await roomService().getParticipant(room, identity);
+  await Promise.all(p.tracks.map((t) => roomService().mutePublishedTrack(room, identity, t.sid, true)));
+  return p.tracks.length;
+}
@@ -0,0 +1,145 @@
+/* lib/server/rooms.ts */
+
+import { GUEST_REQUESTS, checkRequest, electHost, type Presence } from "../game/authority";
+import { defaultCtx, emptyState, reduce, toPublic } from "../game/engine";
+import { stamp } from "../game/sync";
+import type { GameState, Msg } from "../game/types";
+import { isRemoved, roomMode } from "./access";
+import type { Caller } from "./auth";
+import { listMembers, type RoomMember } from "./livekit";
+import { getStore } from "./store";
+
+/* =========================
+   TYPES
+========================= */
+
+export type ActionResult = { ok: true; state: GameState } | { ok: false; status: number; error: string };
+
+// What clients may POST; everything else is engine-internal or peer-to-peer only.
+const SERVER_ACTIONS: Msg["type"][] = [
+  ...GUEST_REQUESTS,
+  "HELLO",
+  // host-only settings: the engine checks requestedBy against the game's host
+  "HOST_TRANSFER",
+  "SET_MAX_PLAYERS",
+  "SEATS_SET",
+  "DIRECTION_REVERSE",
+  "RULES_SET",
+  "MATES_CLEAR",
+  "GAME_START",
+  "GAME_CONTINUE",
+  "GAME_NEW",
+];
+
+/* =========================
+   HELPERS
+========================= */
+
+const locks = new Map<string, Promise<unknown>>();
+const PRESENCE_EVERY_MS = 5_000;
+const presenceCheckedAt = new Map<string, number>();
+
+// Serialize read-modify-write per room within this process.
+async function withRoomLock<T>(room: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(room) ?? Promise.resolve();
+  const run = prev.then(fn, fn);
+  const tail = run.catch(() => {});
+  locks.set(room, tail);
+  try {
+    return await run;
+  } finally {
+    if (locks.get(room) === tail) locks.delete(room);
+  }
+}
+
+// No timers on the server: waterfalls and round countdowns advance whenever someone reads or writes the room.
+function tick(gs: GameState): GameState {
+  const waterfall = reduce(gs, { type: "WATERFALL_TICK" }, defaultCtx);
+  const next = reduce(waterfall, { type: "ROUND_TICK" }, defaultCtx);
+  return next === gs ? gs : stamp(gs, next);
+}
+
+function presenceOf(members: RoomMember[]): Presence {
+  const joined = new Map(members.map((m) => [m.identity, m.joinedAt]));
+  return {
+    list: () => [...joined.keys()],
+    has: (id) => joined.has(id),
+    joinedAt: (id) => joined.get(id) ?? null,
+  };
+}
+
+// Nobody tells the server when a player drops, so it asks LiveKit now and then: whoever is gone leaves their
+// seat (turn, holders, waterfall), and a missing host hands over to the earliest joiner, like the P2P election.
+async function syncPresence(room: string, gs: GameState): Promise<GameState> {
+  const now = Date.now();
+  if (!gs.host || now - (presenceCheckedAt.get(room) ?? 0) < PRESENCE_EVERY_MS) return gs;
+  presenceCheckedAt.set(room, now);
+
+  // an empty list is an empty room or LiveKit being unreachable: keep the table as it is either way
+  const presence = presenceOf((await listMembers(room)).filter((m) => !m.spectator));
+  if (!presence.list().length) return gs;
+
+  let next = gs;
+  for (const id of Object.keys(gs.players)) {
+    if (!presence.has(id)) next = reduce(next, { type: "PLAYER_LEAVE", id }, defaultCtx);
+  }
+  const to = electHost(presence);
+  if (to && next.host && !presence.has(next.host)) next = reduce(next, { type: "HOST_MIGRATE", to }, defaultCtx);
+
+  return next === gs ? gs : stamp(gs, next);
+}
+
+/* =========================
+   ROOM API
+========================= */
+
+export async function readRoom(room: string): Promise<GameState | null> {
+  return withRoomLock(room, async () => {
+    const store = getStore();
+    const gs = await store.get(room);
+    if (!gs) return null;
+
+    const next = await syncPresence(room, tick(gs));
+    if (next !== gs) await store.put(room, next);
+    return toPublic(next);
+  });
+}
+
+export async function runAction(room: string, caller: Caller, msg: Msg): Promise<ActionResult> {
+  const { identity, name } = caller;
+
+  if (!SERVER_ACTIONS.includes(msg.type)) {
+    return { ok: false, status: 400, error: `${msg.type} is not a client action.` };
+  }
+
+  if (caller.spectator) return { ok: false, status: 403, error: "Spectators can't play." };
+
+  const reason = checkRequest(msg, identity);
+  if (reason) return { ok: false, status: 403, error: reason };
+
+  // peer-to-peer rooms are hosted by a client; a server game here would be a second, unchecked host
+  if ((await roomMode(room)) !== "server") {
+    return { ok: false, status: 409, error: "This room plays peer-to-peer." };
+  }
+  if (await isRemoved(room, identity)) return { ok: false, status: 403, error: "You were removed from this room." };
+
+  return withRoomLock(room, async () => {
+    const store = getStore();
+    const stored = await store.get(room);
+    const current = await syncPresence(room, tick(stored ?? emptyState()));
+
+    // joining: first one in hosts (fresh deck), everyone else just takes a seat
+    const action: Msg =
+      msg.type === "HELLO"
+        ? current.host
+          ? { type: "PLAYER_JOIN", id: identity, name }
+          : { type: "HOST_CLAIM", by: identity, name }
+        : msg;
+
+    const reduced = reduce(current, action, defaultCtx);
+    const next = reduced === current ? current : stamp(current, reduced);
+    if (next !== stored) await store.put(room, next);
+
+    return { ok: true, state: toPublic(next) };
+  });
+}
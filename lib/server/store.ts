@@ -0,0 +1,85 @@
+/* lib/server/store.ts */
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+import type { GameState } from "../game/types";
+
+/* =========================
+   TYPES
+========================= */
+
+// One JSON value per room.
+export type RoomStore<T> = {
+  get: (room: string) => Promise<T | null>;
+  put: (room: string, value: T) => Promise<void>;
+};
+
+export type GameStore = RoomStore<GameState>;
+
+/* =========================
+   IMPLEMENTATIONS
+========================= */
+
+export function createMemoryStore<T = GameState>(): RoomStore<T> {
+  const rooms = new Map<string, T>();
+  return {
+    async get(room) {
+      return rooms.get(room) ?? null;
+    },
+    async put(room, value) {
+      rooms.set(room, value);
+    },
+  };
+}
+
+// One JSON file per room; survives restarts of a single long-lived server.
+export function createFileStore<T = GameState>(dir: string): RoomStore<T> {
+  const fileFor = (room: string) => path.join(dir, `${encodeURIComponent(room)}.json`);
+
+  return {
+    async get(room) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(room), "utf8"));
+      } catch (err: any) {
+        if (err?.code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    async put(room, value) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = fileFor(room);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(value));
+      await fs.rename(tmp, file);
+    },
+  };
+}
+
+/* =========================
+   SELECTION
+========================= */
+
+const stores = new Map<string, RoomStore<any>>();
+
+// GAME_STORE=file (dir from GAME_STORE_DIR, default <tmp>/kad-kings) or memory (default).
+function storeFor<T>(kind: string): RoomStore<T> {
+  const have = stores.get(kind);
+  if (have) return have;
+
+  const root = process.env.GAME_STORE_DIR || path.join(os.tmpdir(), "kad-kings");
+  const dir = kind === "game" ? root : path.join(root, kind);
+  const created = process.env.GAME_STORE === "file" ? createFileStore<T>(dir) : createMemoryStore<T>();
+  stores.set(kind, created);
+  return created;
+}
+
+export function getStore(): GameStore {
+  return storeFor<GameState>("game");
+}
+
+// Room settings that live outside the game (e.g. the password); same backend as the games.
+export function getRoomStore<T>(kind: string): RoomStore<T> {
+  return storeFor<T>(kind);
+}